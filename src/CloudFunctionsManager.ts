@@ -4,8 +4,14 @@ import type { CallableRequest } from "firebase-functions/https";
 import type { EventHandlerOptions } from "firebase-functions/options";
 import type { SearchApiConfig } from "./ConfigTypes";
 import { FirestoreSearchEngine } from "./FirestoreSearchEngine";
+import { fse_returnedKeyName } from "./shared/fieldPath";
+import { fse_isTombstone } from "./shared/indexVersion";
+import { fse_getFastEmbedProvider } from "./shared/vectorize";
+import type { FastEmbedProviderOptions } from "./shared/vectorize";
 import type {
   FirestoreSearchEngineConfig,
+  FirestoreSearchEngineFieldConfig,
+  FirestoreSearchEngineReturnedKey,
   PathWithSubCollectionsMaxDepth4,
 } from "./index";
 
@@ -16,6 +22,7 @@ export interface FirebaseFunctionsHost {
   onDocumentCreated: any;
   onDocumentUpdated: any;
   onDocumentDeleted: any;
+  onDocumentWritten?: any;
   onCall: any;
   onRequest: any;
 }
@@ -35,25 +42,28 @@ export interface SearchEngineInstanceConfig
    */
   collection: string;
 
+  /**
+   * Modèle d'embedding fastembed propre à cette instance
+   * (ignoré si embeddingProvider est fourni)
+   */
+  embeddingModel?: FastEmbedProviderOptions;
+
   /**
    * Configuration du document à indexer
    */
   documentConfig?: {
     // Support pour l'indexation multi-champs
     indexedKeys: {
-      [fieldName: string]: {
-        weight?: number;
-        fuzzySearch?: boolean;
-      };
+      [fieldPath: string]: FirestoreSearchEngineFieldConfig;
     };
 
-    returnedKeys: string[];
+    returnedKeys: FirestoreSearchEngineReturnedKey[];
     documentsPath: PathWithSubCollectionsMaxDepth4;
 
     // Configuration pour le stockage des vecteurs
     vectorStorage?: {
       prefix?: string; // Default: "_vector_"
-      batchSize?: number; // Default: 10
+      batchSize?: number; // Default: 32 (documents par appel d'embedding)
       fields?: string[]; // Champs à vectoriser
     };
   };
@@ -80,6 +90,11 @@ export interface SearchEngineInstanceConfig
     onCreate?: boolean;
     onUpdate?: boolean;
     onDelete?: boolean;
+    /**
+     * Un seul trigger onDocumentWritten pour la création, la mise à jour et
+     * la suppression (remplace onCreate, onUpdate et onDelete)
+     */
+    onWrite?: boolean;
     documentsPath?: PathWithSubCollectionsMaxDepth4;
   };
 
@@ -488,7 +503,11 @@ export class CloudFunctionsManager {
       return {
         engineId,
         collection: instanceConfig.collection,
-        totalIndexes: snapshot.size,
+        // Les pierres tombales des documents supprimés ne sont pas des index
+        totalIndexes: snapshot.docs.filter(
+          (doc) => !fse_isTombstone(doc.data())
+        ).length,
+        queryCache: this.getInstance(engineId)?.getQueryCacheStats(),
         config: instanceConfig,
       };
     };
@@ -523,6 +542,27 @@ export class CloudFunctionsManager {
       ...instanceConfig,
     };
 
+    if (!mergedConfig.returnedKeys && mergedConfig.documentConfig) {
+      mergedConfig.returnedKeys =
+        mergedConfig.documentConfig.returnedKeys.map(fse_returnedKeyName);
+    }
+
+    if (
+      mergedConfig.embeddingBatchSize === undefined &&
+      mergedConfig.documentConfig?.vectorStorage?.batchSize
+    ) {
+      mergedConfig.embeddingBatchSize =
+        mergedConfig.documentConfig.vectorStorage.batchSize;
+    }
+
+    // Chaque instance peut choisir son modèle, les instances partageant les
+    // mêmes options réutilisent le même modèle chargé
+    if (!mergedConfig.embeddingProvider && mergedConfig.embeddingModel) {
+      mergedConfig.embeddingProvider = fse_getFastEmbedProvider(
+        mergedConfig.embeddingModel
+      );
+    }
+
     const searchEngine = new FirestoreSearchEngine(
       this.config.firestoreInstance,
       mergedConfig,
@@ -627,6 +667,16 @@ export class CloudFunctionsManager {
     const { triggers, documentConfig, eventHandlerOptions } = instanceConfig;
 
     if (!documentConfig || !triggers?.documentsPath) {
+      if (
+        triggers?.onCreate ||
+        triggers?.onUpdate ||
+        triggers?.onDelete ||
+        triggers?.onWrite
+      ) {
+        console.warn(
+          `⚠️ Triggers ignorés pour l'instance "${instanceConfig.instanceId}" : documentConfig et triggers.documentsPath sont requis`
+        );
+      }
       return functions;
     }
 
@@ -650,6 +700,29 @@ export class CloudFunctionsManager {
       wordMinLength: instanceConfig.wordMinLength,
     };
 
+    if (triggers.onWrite) {
+      if (!this.config.firebaseFunctions.onDocumentWritten) {
+        throw new Error(
+          `onDocumentWritten requis dans firebaseFunctions pour le trigger onWrite de l'instance "${instanceConfig.instanceId}"`
+        );
+      }
+
+      // Une seule fonction : moins de déploiements et de cold starts
+      functions[
+        `searchTrigger${
+          instanceConfig.instanceId.charAt(0).toUpperCase() +
+          instanceConfig.instanceId.slice(1)
+        }OnWrite`
+      ] = searchEngine.onDocumentWrittenWrapper(
+        this.config.firebaseFunctions.onDocumentWritten,
+        docProps,
+        documentsPath,
+        config,
+        eventHandlerOptions
+      );
+      return functions;
+    }
+
     if (triggers.onCreate) {
       const functionName = `searchTrigger${
         instanceConfig.instanceId.charAt(0).toUpperCase() +
@@ -936,22 +1009,61 @@ export class CloudFunctionsManager {
             };
           }
 
+          // Isolation multi-tenant : le tenant vient de la requête, jamais du client
+          const tenantId = await searchEngine.resolveTenantId({
+            request: req,
+            data: req.method === "GET" ? req.query : req.body,
+          });
+          if (searchEngine.isMultiTenant() && !tenantId) {
+            const errorResponse = errorResponses?.unauthorized || {
+              status: 403,
+              message: "Tenant de la requête introuvable",
+            };
+            res.status(errorResponse.status).json({
+              error: errorResponse.message,
+            });
+            return;
+          }
+
+          const params = req.method === "GET" ? req.query : req.body;
+          if (params?.mode === "autocomplete") {
+            const suggestions = await searchEngine.autocomplete({
+              prefix: searchValue,
+              tenantId,
+              limit: parseInt(params.limit) || 10,
+            });
+            res.status(200).json({
+              success: true,
+              instance: instanceId,
+              results: suggestions,
+              totalResults: suggestions.length,
+            });
+            return;
+          }
+
           const searchParams = {
             searchText: searchValue,
             searchConfig: searchConfig,
+            tenantId,
             limit:
               req.method === "GET"
                 ? parseInt(req.query.limit) || 10
                 : req.body?.limit || 10,
+            pageToken:
+              (req.method === "GET"
+                ? req.query.pageToken
+                : req.body?.pageToken) || undefined,
           };
 
-          const results = await searchEngine.searchMultiField(searchParams);
+          const { results, nextPageToken } =
+            await searchEngine.searchMultiFieldPage(searchParams);
 
           res.status(200).json({
             success: true,
             instance: instanceId,
             results: results,
             totalResults: results.length,
+            nextPageToken,
           });
         } catch (error) {
           console.error("Erreur endpoint unifié:", error);
@@ -176,7 +176,8 @@ export function validateConfig(config: SearchEnginesConfig): void {
       const hasAnyTrigger =
         engineConfig.triggers.onCreate ||
         engineConfig.triggers.onUpdate ||
-        engineConfig.triggers.onDelete;
+        engineConfig.triggers.onDelete ||
+        engineConfig.triggers.onWrite;
 
       if (hasAnyTrigger && !engineConfig.documentConfig) {
         throw new Error(
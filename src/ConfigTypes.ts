@@ -132,6 +132,8 @@ export interface AdvancedSearchEngineInstanceConfig
     onCreate?: boolean;
     onUpdate?: boolean;
     onDelete?: boolean;
+    // Un seul trigger onDocumentWritten à la place des trois précédents
+    onWrite?: boolean;
     documentsPath?: PathWithSubCollectionsMaxDepth4;
 
     // Configuration pour la re-vectorisation automatique
@@ -24,6 +24,7 @@ export function createFirebaseFunctionsHost(): FirebaseFunctionsHost {
       onDocumentCreated,
       onDocumentUpdated,
       onDocumentDeleted,
+      onDocumentWritten,
     } = require("firebase-functions/v2/firestore");
 
     const { onCall, onRequest } = require("firebase-functions/v2/https");
@@ -32,6 +33,7 @@ export function createFirebaseFunctionsHost(): FirebaseFunctionsHost {
       onDocumentCreated,
       onDocumentUpdated,
       onDocumentDeleted,
+      onDocumentWritten,
       onCall,
       onRequest,
     };
@@ -69,6 +71,7 @@ export function createMockFirebaseFunctionsHost(): FirebaseFunctionsHost {
     onDocumentCreated: mockFunction,
     onDocumentUpdated: mockFunction,
     onDocumentDeleted: mockFunction,
+    onDocumentWritten: mockFunction,
     onCall: mockFunction,
     onRequest: mockFunction,
   };
@@ -4,23 +4,53 @@ import { firestore } from "firebase-admin";
 import { CallableRequest, HttpsError } from "firebase-functions/https";
 import type { EventHandlerOptions } from "firebase-functions/options";
 import type {
+  Change,
+  DocumentSnapshot,
   onDocumentCreated,
   onDocumentDeleted,
   onDocumentUpdated,
+  onDocumentWritten,
 } from "firebase-functions/v2/firestore";
 import type {
+  FirestoreSearchEngineAutocompleteProps,
   FirestoreSearchEngineConfig,
+  FirestoreSearchEngineFieldConfig,
   FirestoreSearchEngineIndexesAllProps,
   FirestoreSearchEngineIndexesProps,
   FirestoreSearchEngineMultiSearchProps,
   FirestoreSearchEngineReturnType,
+  FirestoreSearchEngineSearchPage,
   FirestoreSearchEngineSearchProps,
+  FirestoreSearchEngineSuggestion,
+  FirestoreSearchEngineTenantContext,
   PathWithSubCollectionsMaxDepth4,
 } from ".";
 import { Indexes } from "./indexes/Indexes";
 import { IndexesAll } from "./indexes/IndexesAll";
+import { Autocomplete } from "./search/Autocomplete";
 import { Search } from "./search/Search";
-import { deepDiff } from "./utils/objects/deepDiff";
+import { FSE_COMBINED_VECTOR_FIELD } from "./shared/combineVectors";
+import {
+  fse_buildReturnedFields,
+  fse_resolveIndexedTexts,
+} from "./shared/fieldPath";
+import { fse_sourceUpdateTime } from "./shared/indexVersion";
+import {
+  fse_fuseFieldResults,
+  fse_validateFusionStrategy,
+} from "./shared/multiFieldFusion";
+import type { FieldSearchResults } from "./shared/multiFieldFusion";
+import {
+  FSE_MAX_FIND_NEAREST_LIMIT,
+  fse_decodePageToken,
+  fse_encodePageToken,
+  fse_searchFingerprint,
+} from "./shared/pageToken";
+import { fse_createNormalizer } from "./shared/normalize";
+import { QueryEmbeddingCache } from "./shared/queryEmbeddingCache";
+import { SynonymDictionary } from "./shared/synonyms";
+import { fse_withTenantSourceField } from "./shared/tenant";
+import { deepEqual } from "./utils/objects/deepEqual";
 /**
  * Configures the Firestore instance and throws an error if a necessary
  * condition (collection name being a non-empty string) is not satisfied.
@@ -43,6 +73,9 @@ import { deepDiff } from "./utils/objects/deepDiff";
  */
 
 export class FirestoreSearchEngine {
+  private readonly queryCache?: QueryEmbeddingCache;
+  private readonly synonyms?: SynonymDictionary;
+
   constructor(
     private readonly firestoreInstance: Firestore,
     private readonly config: FirestoreSearchEngineConfig,
@@ -67,6 +100,63 @@ export class FirestoreSearchEngine {
       throw new Error(
         "collectionName is required and must be a non-empty string."
       );
+
+    if (this.config.queryCache?.enabled !== false) {
+      this.queryCache = new QueryEmbeddingCache(
+        this.firestoreInstance,
+        this.config.queryCache
+      );
+    }
+
+    if (this.config.synonyms) {
+      this.synonyms = new SynonymDictionary(
+        this.firestoreInstance,
+        this.config.synonyms,
+        fse_createNormalizer(this.config.normalization)
+      );
+    }
+  }
+
+  /**
+   * Whether index documents and searches are scoped by tenant
+   */
+  isMultiTenant(): boolean {
+    return !!this.config.tenant;
+  }
+
+  /**
+   * Resolves the tenant of a search request with tenant.resolveTenant, or
+   * with the tenant.authClaim of the auth token by default
+   * @returns {Promise<string | undefined>} undefined when the engine is not multi-tenant or the tenant is unknown
+   */
+  async resolveTenantId(
+    context: FirestoreSearchEngineTenantContext
+  ): Promise<string | undefined> {
+    const tenant = this.config.tenant;
+    if (!tenant) return undefined;
+
+    const tenantId = tenant.resolveTenant
+      ? await tenant.resolveTenant(context)
+      : context.auth?.token?.[tenant.authClaim ?? "tenantId"];
+
+    return typeof tenantId === "string" && tenantId.length > 0
+      ? tenantId
+      : undefined;
+  }
+
+  /**
+   * Returns the hit/miss counters of the query embedding cache
+   * (undefined when the cache is disabled)
+   */
+  getQueryCacheStats() {
+    return this.queryCache?.getStats();
+  }
+
+  /**
+   * Reloads the synonyms document on the next search
+   */
+  reloadSynonyms() {
+    this.synonyms?.clear();
   }
 
   /**
@@ -86,10 +176,79 @@ export class FirestoreSearchEngine {
   async search(
     props: FirestoreSearchEngineSearchProps
   ): Promise<FirestoreSearchEngineReturnType> {
+    return (await this.searchPage(props)).results;
+  }
+
+  /**
+   * Same as search but returns a page of results with the token of the next page.
+   * @example
+   * const page = await firestoreSearchEngine.searchPage({ fieldValue: 'searchQuery', limit: 10 });
+   * const nextPage = await firestoreSearchEngine.searchPage({ fieldValue: 'searchQuery', limit: 10, pageToken: page.nextPageToken });
+   *
+   * @param {FirestoreSearchEngineSearchProps} props - The search properties, with the optional pageToken.
+   * @returns {Promise<FirestoreSearchEngineSearchPage>} The results of the page and the nextPageToken (undefined on the last page).
+   * @throws {Error} If the pageToken was issued for another search.
+   */
+  async searchPage(
+    props: FirestoreSearchEngineSearchProps
+  ): Promise<FirestoreSearchEngineSearchPage> {
     if (typeof props.fieldValue !== "string" || props.fieldValue.length === 0) {
       throw new Error("fieldValue is required and must be a non-empty string.");
     }
+    if (
+      props.searchField !== undefined &&
+      (typeof props.searchField !== "string" || props.searchField.length === 0)
+    ) {
+      throw new Error("searchField must be a non-empty string.");
+    }
+
+    // Recherche pondérée sur plusieurs champs
+    if (props.fieldWeights && Object.keys(props.fieldWeights).length > 0) {
+      if (props.searchField) {
+        throw new Error("searchField and fieldWeights cannot be combined.");
+      }
+      const searchConfig: FirestoreSearchEngineMultiSearchProps["searchConfig"] =
+        {};
+      for (const [fieldName, weight] of Object.entries(props.fieldWeights)) {
+        searchConfig[fieldName] = { weight, fuzzySearch: props.fuzzySearch };
+      }
+      return await this.searchMultiFieldPage({
+        searchText: props.fieldValue,
+        searchConfig,
+        limit: props.limit,
+        distanceThreshold: props.distanceThreshold,
+        fusion: props.fusion,
+        mode: props.mode,
+        filters: props.filters,
+        tenantId: props.tenantId,
+        pageToken: props.pageToken,
+      });
+    }
+
     return await new Search(
+      this.firestoreInstance,
+      this.config,
+      props,
+      this.queryCache,
+      this.synonyms
+    ).executePage();
+  }
+
+  /**
+   * Suggests documents whose indexed fields start with the typed prefix
+   * Uses the edge n-grams written at index time, requires the autocomplete option
+   * @example
+   * const suggestions = await searchEngine.autocomplete({ prefix: "mar", limit: 5 });
+   * // suggestions[0]._suggestion.highlighted === "<em>mar</em>seille"
+   */
+  async autocomplete(
+    props: FirestoreSearchEngineAutocompleteProps
+  ): Promise<FirestoreSearchEngineSuggestion[]> {
+    if (typeof props.prefix !== "string") {
+      throw new Error("prefix is required and must be a string.");
+    }
+
+    return await new Autocomplete(
       this.firestoreInstance,
       this.config,
       props
@@ -120,6 +279,44 @@ export class FirestoreSearchEngine {
     ).indexes();
   }
 
+  /**
+   * Transactional re-indexing of a document: the index document and its
+   * passages are replaced at once, unless the index comes from a more recent
+   * source (sourceUpdateTime) or from the same event (sourceEventId)
+   * @return {Promise<boolean>} false when the update was skipped
+   */
+  async updateIndexes(props: FirestoreSearchEngineIndexesProps) {
+    if (!props.inputFields || typeof props.inputFields !== "object") {
+      throw new Error(
+        "inputFields is required and must be an object with field configurations."
+      );
+    }
+
+    return await new Indexes(
+      this.firestoreInstance,
+      this.fieldValueInstance,
+      this.config,
+      props
+    ).updateIndex();
+  }
+
+  /**
+   * Patches the returned fields of an existing index without re-embedding,
+   * the keys of previousReturnedFields missing from returnedFields are deleted
+   * @return {Promise<boolean>} false when the patch was skipped
+   */
+  async patchReturnedFields(
+    props: Omit<FirestoreSearchEngineIndexesProps, "inputFields">,
+    previousReturnedFields: Record<string, any>
+  ) {
+    return await new Indexes(
+      this.firestoreInstance,
+      this.fieldValueInstance,
+      this.config,
+      { ...props, inputFields: {} }
+    ).patchReturnedFields(previousReturnedFields);
+  }
+
   /**
    * Remove multi-field indexes for a document
    */
@@ -180,105 +377,156 @@ export class FirestoreSearchEngine {
   }
 
   /**
-   * Search in multiple fields with weighted results
+   * Search in multiple fields in parallel and fuse the weighted results
+   * with props.fusion (default "max"), per-field contributions are
+   * reported in _matchedFields
    */
   public async searchMultiField(
     props: FirestoreSearchEngineMultiSearchProps
   ): Promise<any[]> {
-    // Convert to traditional search format for each field and combine results
-    const searchResults: any[] = [];
-    const fieldNames = Object.keys(props.searchConfig);
+    return (await this.searchMultiFieldPage(props)).results;
+  }
 
-    for (const fieldName of fieldNames) {
-      const fieldConfig = props.searchConfig[fieldName];
+  /**
+   * Search in multiple fields and return a page of results with the token of the next page
+   */
+  public async searchMultiFieldPage(
+    props: FirestoreSearchEngineMultiSearchProps
+  ): Promise<FirestoreSearchEngineSearchPage> {
+    const limit = props.limit || 20;
+    const fingerprint = fse_searchFingerprint({
+      searchText: props.searchText,
+      searchConfig: props.searchConfig,
+      fusion: props.fusion,
+      filters: props.filters,
+      tenantId: props.tenantId,
+      mode: props.mode,
+      useCombinedVector: props.useCombinedVector,
+    });
+    const offset = fse_decodePageToken(props.pageToken, fingerprint);
+    // Résultats des pages précédentes + page courante + 1 pour savoir s'il reste une page
+    const fetchLimit = Math.min(offset + limit + 1, FSE_MAX_FIND_NEAREST_LIMIT);
 
-      try {
-        // Search in the specific vector field
-        const fieldSearchProps: FirestoreSearchEngineSearchProps = {
-          fieldValue: props.searchText,
-          fuzzySearch: fieldConfig.fuzzySearch ?? true,
-          limit: props.limit || 20,
-          distanceThreshold: props.distanceThreshold || 0.8,
-          // Use standard 'vectors' field for emulator compatibility
-          vectorFieldName: `vectors`,
-          // Add field filter for multi-field search
-          fieldFilter: fieldName,
-        };
-
-        const fieldResults = await new Search(
-          this.firestoreInstance,
-          this.config,
-          fieldSearchProps
-        ).execute();
-
-        // Apply field weight to results
-        const weightedResults = fieldResults.map((result: any) => ({
-          ...result,
-          _fieldMatch: fieldName,
-          _fieldWeight: fieldConfig.weight || 1.0,
-          _relevanceScore:
-            (result._relevanceScore || 1.0) * (fieldConfig.weight || 1.0),
-        }));
-
-        searchResults.push(...weightedResults);
-      } catch (error) {
-        console.warn(`⚠️ Erreur recherche champ ${fieldName}:`, error);
-        // Continue with other fields
-      }
-    }
+    const strategy =
+      props.fusion ?? this.config.multiFieldFusion ?? ("max" as const);
+    fse_validateFusionStrategy(strategy);
+
+    // Convert to traditional search format for each field, fields are searched in parallel
+    const fieldNames = Object.keys(props.searchConfig);
+    // Filtres et tenant invalides : erreur levée une fois, avant les recherches par champ
+    new Search(this.firestoreInstance, this.config, {
+      fieldValue: props.searchText,
+      mode: props.mode,
+      filters: props.filters,
+      tenantId: props.tenantId,
+    }).validate();
+    const fieldResults = props.useCombinedVector
+      ? [await this.searchCombinedVector(props, fetchLimit)]
+      : await Promise.all(
+          fieldNames.map((fieldName) =>
+            this.searchInField(props, fieldName, fetchLimit)
+          )
+        );
 
-    // Combine and sort results by relevance score
-    const combinedResults = this.combineMultiFieldResults(
-      searchResults,
-      props.limit || 20
+    // Combine and sort results with the fusion strategy
+    const combinedResults = fse_fuseFieldResults(
+      fieldResults,
+      strategy,
+      fetchLimit
     );
+    const hasNextPage =
+      combinedResults.length > offset + limit &&
+      offset + limit < FSE_MAX_FIND_NEAREST_LIMIT;
 
-    return combinedResults;
+    return {
+      results: combinedResults.slice(offset, offset + limit),
+      nextPageToken: hasNextPage
+        ? fse_encodePageToken(offset + limit, fingerprint)
+        : undefined,
+    };
   }
 
   /**
-   * Combine and deduplicate multi-field search results
+   * Search in the vector of one field for multi-field search
+   * A field whose Firestore query fails (e.g. missing vector index) returns
+   * no results so the other fields are still used, other errors (embedding
+   * model mismatch, provider failure) are thrown
    */
-  private combineMultiFieldResults(results: any[], limit: number): any[] {
-    // Group by indexedDocumentPath to combine scores
-    const groupedResults = new Map<string, any>();
-
-    for (const result of results) {
-      const docPath = result.indexedDocumentPath;
-
-      if (groupedResults.has(docPath)) {
-        const existing = groupedResults.get(docPath);
-        // Combine relevance scores (take max or average)
-        existing._relevanceScore = Math.max(
-          existing._relevanceScore,
-          result._relevanceScore
-        );
-        existing._matchedFields = existing._matchedFields || [];
-        existing._matchedFields.push({
-          field: result._fieldMatch,
-          weight: result._fieldWeight,
-          score: result._relevanceScore,
-        });
-      } else {
-        groupedResults.set(docPath, {
-          ...result,
-          _matchedFields: [
-            {
-              field: result._fieldMatch,
-              weight: result._fieldWeight,
-              score: result._relevanceScore,
-            },
-          ],
-        });
-      }
+  private async searchInField(
+    props: FirestoreSearchEngineMultiSearchProps,
+    fieldName: string,
+    fetchLimit: number
+  ): Promise<FieldSearchResults> {
+    const fieldConfig = props.searchConfig[fieldName];
+    const weight = fieldConfig.weight || 1.0;
+
+    try {
+      // Search in the specific vector field
+      const fieldSearchProps: FirestoreSearchEngineSearchProps = {
+        fieldValue: props.searchText,
+        fuzzySearch: fieldConfig.fuzzySearch ?? true,
+        limit: fetchLimit,
+        distanceThreshold: props.distanceThreshold || 0.8,
+        // Use standard 'vectors' field for emulator compatibility
+        vectorFieldName: `vectors`,
+        // Add field filter for multi-field search
+        fieldFilter: fieldName,
+        mode: props.mode,
+        filters: props.filters,
+        tenantId: props.tenantId,
+      };
+
+      const results = await new Search(
+        this.firestoreInstance,
+        this.config,
+        fieldSearchProps,
+        this.queryCache,
+        this.synonyms
+      ).execute();
+
+      return { field: fieldName, weight, results };
+    } catch (error) {
+      // Les erreurs Firestore portent un code gRPC numérique
+      if (typeof (error as { code?: unknown })?.code !== "number") throw error;
+      console.warn(`⚠️ Erreur recherche champ ${fieldName}:`, error);
+      // Continue with other fields
+      return { field: fieldName, weight, results: [] };
     }
+  }
 
-    // Convert back to array and sort by relevance
-    const finalResults = Array.from(groupedResults.values())
-      .sort((a, b) => b._relevanceScore - a._relevanceScore)
-      .slice(0, limit);
+  /**
+   * Single findNearest on the combined vector written at index time
+   * The field weights used are the ones of the index (_field_weights)
+   */
+  private async searchCombinedVector(
+    props: FirestoreSearchEngineMultiSearchProps,
+    fetchLimit: number
+  ): Promise<FieldSearchResults> {
+    if (!this.config.combinedVector) {
+      throw new Error(
+        "useCombinedVector requires the combinedVector option in the search engine configuration."
+      );
+    }
+    const results = await new Search(
+      this.firestoreInstance,
+      this.config,
+      {
+        fieldValue: props.searchText,
+        fuzzySearch: Object.values(props.searchConfig).some(
+          (fieldConfig) => fieldConfig.fuzzySearch ?? true
+        ),
+        limit: fetchLimit,
+        distanceThreshold: props.distanceThreshold || 0.8,
+        vectorFieldName: FSE_COMBINED_VECTOR_FIELD,
+        mode: props.mode,
+        filters: props.filters,
+        tenantId: props.tenantId,
+      },
+      this.queryCache,
+      this.synonyms
+    ).execute();
 
-    return finalResults;
+    return { field: FSE_COMBINED_VECTOR_FIELD, weight: 1.0, results };
   }
 
   async expressWrapper(
@@ -292,20 +540,40 @@ export class FirestoreSearchEngine {
       `${path}/:searchValue`,
       async (request: Request, response: Response) => {
         const { searchValue } = request.params;
+        const autocomplete = this.isAutocompleteRequest(request.query);
         if (
           !searchValue ||
           typeof searchValue !== "string" ||
-          searchValue.length < (this.config.wordMinLength ?? 3)
+          searchValue.length < this.minSearchLength(autocomplete)
         ) {
           console.log("WordMinLenght catched");
           response.json([]);
           return;
         }
+        const tenantId = await this.resolveTenantId({ request });
+        if (this.config.tenant && !tenantId) {
+          response.status(403).json(this.buildTenantError());
+          return;
+        }
+        const { paginate, pageToken } = this.readPageRequest(request.query);
         try {
-          const result = await this.search({
+          if (autocomplete) {
+            response
+              .status(200)
+              .json(
+                await this.autocompleteRequest(searchValue, tenantId, props)
+              );
+            return;
+          }
+          const searchProps = {
             ...props,
             fieldValue: searchValue,
-          });
+            tenantId,
+            pageToken,
+          };
+          const result = paginate
+            ? await this.searchPage(searchProps)
+            : await this.search(searchProps);
           response.status(200).json(result);
         } catch (error) {
           response.status(400).json(this.buildError(error));
@@ -340,24 +608,43 @@ export class FirestoreSearchEngine {
         wordMinLength: this.config.wordMinLength ?? 3,
       });
 
+      const autocomplete = this.isAutocompleteRequest(req.query);
       if (
         !searchValue ||
         typeof searchValue !== "string" ||
-        searchValue.length < (this.config.wordMinLength ?? 3)
+        searchValue.length < this.minSearchLength(autocomplete)
       ) {
         console.log("WordMinLength catched - returning empty array");
         res.json([]);
         return;
       }
 
+      const tenantId = await this.resolveTenantId({ request: req });
+      if (this.config.tenant && !tenantId) {
+        res.status(403).json(this.buildTenantError());
+        return;
+      }
+
+      const { paginate, pageToken } = this.readPageRequest(req.query);
+
       try {
+        if (autocomplete) {
+          res
+            .status(200)
+            .json(await this.autocompleteRequest(searchValue, tenantId, props));
+          return;
+        }
         console.log(`🚀 Starting search for: "${searchValue}"`);
-        const result = await this.search({
+        const page = await this.searchPage({
           ...props,
           fieldValue: searchValue,
+          tenantId,
+          pageToken,
         });
-        console.log(`✅ Search completed, found ${result.length} results`);
-        res.status(200).json(result);
+        console.log(
+          `✅ Search completed, found ${page.results.length} results`
+        );
+        res.status(200).json(paginate ? page : page.results);
       } catch (error) {
         console.error(`❌ Search error:`, error);
         const errorResponse = this.buildError(error);
@@ -387,12 +674,20 @@ export class FirestoreSearchEngine {
    *  //in Front-end callableFunction call with :
    *  //
    *  httpsCallable(searchUserName)({ searchValue: inputValue });
+   *  //with pagination, returns { results, nextPageToken }:
+   *  httpsCallable(searchUserName)({ searchValue: inputValue, paginate: true, pageToken });
+   *  //autocomplete suggestions with highlighted prefixes (requires the autocomplete option):
+   *  httpsCallable(searchUserName)({ searchValue: "mar", mode: "autocomplete" });
    *  //method: Managed from front package.json file
    */
   onCallWrapped(
     authCallBack: (auth: CallableRequest["auth"]) => Promise<boolean> | boolean,
     props?: Omit<FirestoreSearchEngineSearchProps, "fieldValue">
-  ): (data: CallableRequest) => Promise<FirestoreSearchEngineReturnType> {
+  ): (
+    data: CallableRequest
+  ) => Promise<
+    FirestoreSearchEngineReturnType | FirestoreSearchEngineSearchPage
+  > {
     return async ({ data, auth }) => {
       if (authCallBack) {
         const isAuthorized = await authCallBack(auth);
@@ -400,20 +695,34 @@ export class FirestoreSearchEngine {
           throw new HttpsError("unauthenticated", "Unauthorized");
       }
       const searchValue = data.searchValue;
+      const autocomplete = this.isAutocompleteRequest(data);
       if (
         !searchValue ||
         typeof searchValue !== "string" ||
-        searchValue.length < (this.config.wordMinLength ?? 3)
+        searchValue.length < this.minSearchLength(autocomplete)
       ) {
         console.log("WordMinLenght catched");
         return [];
       }
+      const tenantId = await this.resolveTenantId({ auth, data });
+      if (this.config.tenant && !tenantId) {
+        throw new HttpsError(
+          "permission-denied",
+          this.buildTenantError().message
+        );
+      }
+      const { paginate, pageToken } = this.readPageRequest(data);
       try {
-        const result = await this.search({
+        if (autocomplete) {
+          return await this.autocompleteRequest(searchValue, tenantId, props);
+        }
+        const page = await this.searchPage({
           ...props,
           fieldValue: searchValue,
+          tenantId,
+          pageToken,
         });
-        return result;
+        return paginate ? page : page.results;
       } catch (error) {
         const err = this.buildError(error);
         throw new HttpsError("aborted", err.message, err);
@@ -436,9 +745,10 @@ export class FirestoreSearchEngine {
    *   {
    *     indexedKeys: {
    *       "name": { weight: 1.0, fuzzySearch: true },
-   *       "description": { weight: 0.5, fuzzySearch: false }
+   *       "description": { weight: 0.5, fuzzySearch: false },
+   *       "fullName": { compute: (doc) => `${doc.firstName} ${doc.lastName}` }
    *     },
-   *     returnedKey: ["id", "setAt"]
+   *     returnedKey: ["id", { key: "city", project: (doc) => doc.address?.city }]
    *   },
    *   "users/{userId}",
    *   { wordMaxLength: 25 },
@@ -447,12 +757,7 @@ export class FirestoreSearchEngine {
    */
   onDocumentWriteWrapper(
     onDocumentWrittenCallBack: typeof onDocumentCreated,
-    documentProps: {
-      indexedKeys: {
-        [fieldName: string]: { weight?: number; fuzzySearch?: boolean };
-      };
-      returnedKey: string[];
-    },
+    documentProps: FirestoreSearchEngineIndexesAllProps,
     documentsPath: PathWithSubCollectionsMaxDepth4,
     props: Pick<
       FirestoreSearchEngineConfig,
@@ -463,47 +768,13 @@ export class FirestoreSearchEngine {
     return onDocumentWrittenCallBack(
       { ...eventHandlerOptions, document: documentsPath },
       async (event) => {
-        const data = event.data?.data();
-        if (!event.data || !data) return;
-
-        // Construire les champs retournés
-        const returnedFields: Record<string, any> = {
-          indexedDocumentPath: event.data.ref.path,
-        };
-
-        for (const key of documentProps.returnedKey) {
-          if (data[key] !== undefined) {
-            returnedFields[key] = data[key];
-          }
-        }
-
-        // Vérifier si au moins un champ à indexer existe et est valide
-        const hasValidFields = Object.keys(documentProps.indexedKeys).some(
-          (fieldName) => {
-            const fieldValue = data[fieldName];
-            return (
-              fieldValue &&
-              typeof fieldValue === "string" &&
-              fieldValue.length > (props.wordMinLength ?? 3)
-            );
-          }
+        if (!event.data) return;
+        await this.indexWrittenDocument(
+          event.data,
+          event,
+          documentProps,
+          props
         );
-
-        if (hasValidFields) {
-          try {
-            // Utiliser la nouvelle API multi-champs
-            await this.indexes({
-              inputFields: documentProps.indexedKeys,
-              returnedFields: returnedFields as {
-                indexedDocumentPath: string;
-              } & Record<string, any>,
-            });
-          } catch (error) {
-            console.error("❌ Erreur indexation multi-champs:", error);
-            return;
-          }
-        }
-        return;
       }
     );
   }
@@ -534,12 +805,7 @@ export class FirestoreSearchEngine {
    */
   onDocumentUpdateWrapper(
     instanceOfOnDocumentUpdated: typeof onDocumentUpdated,
-    documentProps: {
-      indexedKeys: {
-        [fieldName: string]: { weight?: number; fuzzySearch?: boolean };
-      };
-      returnedKey: string[];
-    },
+    documentProps: FirestoreSearchEngineIndexesAllProps,
     documentsPath: PathWithSubCollectionsMaxDepth4,
     props: Pick<
       FirestoreSearchEngineConfig,
@@ -551,78 +817,12 @@ export class FirestoreSearchEngine {
       { ...eventHandlerOptions, document: documentsPath },
       async (event) => {
         if (!event.data) return;
-
-        const { changes, after, deleted } = deepDiff(
-          event.data.before.data() || {},
-          event.data.after.data() || {}
-        );
-
-        // Gérer les suppressions pour chaque champ indexé
-        const deletedFields = Object.keys(documentProps.indexedKeys).filter(
-          (fieldName) => {
-            const deletedValue = deleted[fieldName];
-            return deletedValue && typeof deletedValue === "string";
-          }
-        );
-
-        for (const fieldName of deletedFields) {
-          const deletedFieldValue = deleted[fieldName];
-          try {
-            // Créer un objet temporaire pour la suppression
-            const tempProps = {
-              inputFields: { [fieldName]: { weight: 1.0, fuzzySearch: true } },
-              returnedFields: {
-                indexedDocumentPath: event.data.after.ref.path,
-                [fieldName]: deletedFieldValue,
-              },
-            };
-            await this.removeIndexes(tempProps);
-          } catch (error) {
-            console.error(
-              `❌ Erreur suppression index champ ${fieldName}:`,
-              error
-            );
-          }
-        }
-
-        // Construire les champs retournés
-        const returnedFields: Record<string, any> = {
-          indexedDocumentPath: event.data.after.ref.path,
-        };
-
-        for (const key of documentProps.returnedKey) {
-          if (after[key] !== undefined) {
-            returnedFields[key] = after[key];
-          }
-        }
-
-        // Vérifier si au moins un champ modifié est valide pour l'indexation
-        const hasValidChanges = Object.keys(documentProps.indexedKeys).some(
-          (fieldName) => {
-            const updatedValue = changes[fieldName];
-            return (
-              updatedValue &&
-              typeof updatedValue === "string" &&
-              updatedValue.length > (props.wordMinLength ?? 3)
-            );
-          }
+        await this.reindexUpdatedDocument(
+          event.data,
+          event,
+          documentProps,
+          props
         );
-
-        if (hasValidChanges) {
-          try {
-            // Utiliser la nouvelle API multi-champs pour réindexer
-            await this.indexes({
-              inputFields: documentProps.indexedKeys,
-              returnedFields: returnedFields as {
-                indexedDocumentPath: string;
-              } & Record<string, any>,
-            });
-          } catch (error) {
-            console.error("❌ Erreur réindexation multi-champs:", error);
-            return;
-          }
-        }
-        return;
       }
     );
   }
@@ -647,28 +847,292 @@ export class FirestoreSearchEngine {
     return instanceOfOnDocumentDeleted(
       { ...eventHandlerOptions, document: documentsPath },
       async (event) => {
-        const data = event.data?.data();
-        if (!event.data || !data) return;
-        try {
-          const bulk = this.firestoreInstance.bulkWriter();
-          const indexedDocumentPath = event.data.ref.path;
-          const querySnap = await this.firestoreInstance
-            .collection(this.config.collection)
-            .where("indexedDocumentPath", "==", indexedDocumentPath)
-            .get();
-          for (let index = 0; index < querySnap.docs.length; index++) {
-            const doc = querySnap.docs[index];
-            bulk.delete(doc.ref);
-            if (index > 500) await bulk.flush();
-          }
-          await bulk.close();
-        } catch (error) {
+        if (!event.data?.data()) return;
+        await this.removeDeletedDocument(event.data, event);
+      }
+    );
+  }
+
+  /**
+   * Wrapper pour un trigger unique onDocumentWritten : création, mise à jour
+   * et suppression sont traitées par la même fonction
+   * @param {typeof onDocumentWritten} instanceOfOnDocumentWritten - Le callback onDocumentWritten à wrapper
+   * @param {object} documentProps - Les propriétés du document avec indexedKeys et returnedKey
+   * @param {PathWithSubCollectionsMaxDepth4} documentsPath - Le chemin du document à indexer
+   * @param {object} props - Les propriétés de configuration optionnelles
+   * @param {EventHandlerOptions} eventHandlerOptions - Les options du gestionnaire d'événements
+   * @return {Function} La fonction callback wrappée
+   *
+   * @example
+   * export const firestoreWritten = searchEngineUserName.onDocumentWrittenWrapper(
+   *   onDocumentWritten,
+   *   {
+   *     indexedKeys: { "name": { weight: 1.0, fuzzySearch: true } },
+   *     returnedKey: ["id"]
+   *   },
+   *   "users/{userId}",
+   *   { wordMinLength: 3 },
+   *   { region: "europe-west3" }
+   * );
+   */
+  onDocumentWrittenWrapper(
+    instanceOfOnDocumentWritten: typeof onDocumentWritten,
+    documentProps: FirestoreSearchEngineIndexesAllProps,
+    documentsPath: PathWithSubCollectionsMaxDepth4,
+    props: Pick<
+      FirestoreSearchEngineConfig,
+      "wordMaxLength" | "wordMinLength"
+    > = {},
+    eventHandlerOptions: EventHandlerOptions = {}
+  ) {
+    return instanceOfOnDocumentWritten(
+      { ...eventHandlerOptions, document: documentsPath },
+      async (event) => {
+        if (!event.data) return;
+        const { before, after } = event.data;
+
+        if (!after.exists) {
+          if (before.exists) await this.removeDeletedDocument(before, event);
+          return;
+        }
+        if (!before.exists) {
+          await this.indexWrittenDocument(after, event, documentProps, props);
           return;
         }
+        await this.reindexUpdatedDocument(
+          event.data,
+          event,
+          documentProps,
+          props
+        );
+      }
+    );
+  }
 
+  /**
+   * Indexe un document créé (onCreate, onWrite)
+   */
+  private async indexWrittenDocument(
+    snapshot: DocumentSnapshot,
+    event: { id: string; time: string },
+    documentProps: FirestoreSearchEngineIndexesAllProps,
+    props: Pick<FirestoreSearchEngineConfig, "wordMaxLength" | "wordMinLength">
+  ): Promise<void> {
+    const data = snapshot.data();
+    if (!data) return;
+
+    // Construire les champs retournés (clés et projections)
+    const returnedFields = fse_withTenantSourceField(
+      this.config.tenant,
+      fse_buildReturnedFields(
+        snapshot.ref.path,
+        documentProps.returnedKey,
+        data
+      ),
+      data
+    );
+
+    // Vérifier si au moins un champ à indexer existe et est valide
+    const hasValidFields = Object.entries(documentProps.indexedKeys).some(
+      ([fieldPath, fieldConfig]) =>
+        fse_resolveIndexedTexts(data, fieldPath, fieldConfig).some(
+          (fieldValue) => fieldValue.length > (props.wordMinLength ?? 3)
+        )
+    );
+
+    if (hasValidFields) {
+      try {
+        // Les événements obsolètes ou rejoués sont ignorés
+        await this.updateIndexes({
+          inputFields: documentProps.indexedKeys,
+          returnedFields,
+          sourceData: data,
+          sourceUpdateTime: fse_sourceUpdateTime(snapshot, event.time),
+          sourceEventId: event.id,
+        });
+      } catch (error) {
+        console.error("❌ Erreur indexation multi-champs:", error);
         return;
       }
+    }
+  }
+
+  /**
+   * Réindexe un document mis à jour si un champ indexé a changé (onUpdate, onWrite)
+   */
+  private async reindexUpdatedDocument(
+    change: Change<DocumentSnapshot>,
+    event: { id: string; time: string },
+    documentProps: FirestoreSearchEngineIndexesAllProps,
+    props: Pick<FirestoreSearchEngineConfig, "wordMaxLength" | "wordMinLength">
+  ): Promise<void> {
+    const before = change.before.data() || {};
+    const after = change.after.data() || {};
+
+    // Construire les champs retournés (clés et projections)
+    const returnedFields = fse_withTenantSourceField(
+      this.config.tenant,
+      fse_buildReturnedFields(
+        change.after.ref.path,
+        documentProps.returnedKey,
+        after
+      ),
+      after
+    );
+
+    // Un champ indexé est réindexé quand ses textes indexables changent, y
+    // compris quand il est supprimé ou devient trop court pour être indexé
+    const indexableTexts = (
+      data: Record<string, any>,
+      fieldPath: string,
+      fieldConfig: FirestoreSearchEngineFieldConfig
+    ) =>
+      fse_resolveIndexedTexts(data, fieldPath, fieldConfig)
+        .filter((text) => text.length > (props.wordMinLength ?? 3))
+        .join("\n");
+    const hasIndexedChanges = Object.entries(documentProps.indexedKeys).some(
+      ([fieldPath, fieldConfig]) =>
+        indexableTexts(before, fieldPath, fieldConfig) !==
+        indexableTexts(after, fieldPath, fieldConfig)
     );
+
+    const sourceUpdateTime = fse_sourceUpdateTime(change.after, event.time);
+
+    if (hasIndexedChanges) {
+      try {
+        // Remplacement transactionnel, les événements obsolètes ou rejoués sont ignorés
+        await this.updateIndexes({
+          inputFields: documentProps.indexedKeys,
+          returnedFields,
+          sourceData: after,
+          sourceUpdateTime,
+          sourceEventId: event.id,
+        });
+      } catch (error) {
+        console.error("❌ Erreur réindexation multi-champs:", error);
+      }
+      return;
+    }
+
+    // Seuls les champs retournés ont changé : mise à jour sans revectorisation
+    // (lus dans le document réel, les clés retirées sont supprimées de l'index)
+    const [previousReturnedFields, currentReturnedFields] = [
+      change.before,
+      change.after,
+    ].map((snapshot) => {
+      const data = snapshot.data() || {};
+      return fse_withTenantSourceField(
+        this.config.tenant,
+        fse_buildReturnedFields(
+          snapshot.ref.path,
+          documentProps.returnedKey,
+          data
+        ),
+        data
+      );
+    });
+    if (deepEqual(previousReturnedFields, currentReturnedFields)) return;
+
+    try {
+      await this.patchReturnedFields(
+        {
+          returnedFields: currentReturnedFields,
+          sourceUpdateTime,
+          sourceEventId: event.id,
+        },
+        previousReturnedFields
+      );
+    } catch (error) {
+      console.error("❌ Erreur mise à jour des champs retournés:", error);
+    }
+  }
+
+  /**
+   * Supprime l'index d'un document supprimé (onDelete, onWrite)
+   * L'index devient une pierre tombale datée de l'événement : les
+   * créations et mises à jour plus anciennes reçues en retard sont ignorées
+   */
+  private async removeDeletedDocument(
+    snapshot: DocumentSnapshot,
+    event: { id: string; time: string }
+  ): Promise<void> {
+    try {
+      // Id de l'index dérivé du chemin : suppression directe, sans requête
+      await this.removeIndexes({
+        inputFields: {},
+        returnedFields: { indexedDocumentPath: snapshot.ref.path },
+        sourceUpdateTime: new Date(event.time),
+        sourceEventId: event.id,
+      });
+    } catch (error) {
+      return;
+    }
+  }
+
+  /**
+   * Reads the pagination parameters of a request: a page object
+   * { results, nextPageToken } is returned when paginate=true or a pageToken
+   * is sent, the plain results array otherwise
+   */
+  private readPageRequest(params: any): {
+    paginate: boolean;
+    pageToken?: string;
+  } {
+    const pageToken =
+      typeof params?.pageToken === "string" && params.pageToken.length > 0
+        ? params.pageToken
+        : undefined;
+    const paginate =
+      !!pageToken || params?.paginate === true || params?.paginate === "true";
+    return { paginate, pageToken };
+  }
+
+  /**
+   * Whether a request asks for autocomplete suggestions (mode=autocomplete)
+   */
+  private isAutocompleteRequest(params: any): boolean {
+    return params?.mode === "autocomplete";
+  }
+
+  /**
+   * Shortest accepted search value: wordMinLength, or the shortest indexed
+   * prefix for autocomplete requests
+   */
+  private minSearchLength(autocomplete: boolean): number {
+    return autocomplete
+      ? this.config.autocomplete?.minPrefixLength ?? 2
+      : this.config.wordMinLength ?? 3;
+  }
+
+  /**
+   * Autocomplete suggestions of a wrapped request, with the limit and
+   * filters of the wrapper search props
+   */
+  private async autocompleteRequest(
+    prefix: string,
+    tenantId: string | undefined,
+    props?: Omit<FirestoreSearchEngineSearchProps, "fieldValue">
+  ) {
+    return await this.autocomplete({
+      prefix,
+      tenantId,
+      limit: props?.limit,
+      filters: props?.filters,
+    });
+  }
+
+  /**
+   * Error returned when the tenant of a search request cannot be resolved
+   */
+  private buildTenantError() {
+    return {
+      message:
+        "Unable to resolve the tenant of the search request for " +
+        this.config.collection +
+        " collection.",
+      timestamp: new Date().toISOString(),
+      collection: this.config.collection,
+    };
   }
 
   buildError(error: unknown) {
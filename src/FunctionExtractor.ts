@@ -18,6 +18,7 @@ export function extractInstanceFunctions(
   onCreate?: any;
   onUpdate?: any;
   onDelete?: any;
+  onWrite?: any;
 } {
   const capitalizedInstanceId =
     instanceId.charAt(0).toUpperCase() + instanceId.slice(1);
@@ -29,6 +30,7 @@ export function extractInstanceFunctions(
     onCreate: functions[`${baseName}OnCreate`],
     onUpdate: functions[`${baseName}OnUpdate`],
     onDelete: functions[`${baseName}OnDelete`],
+    onWrite: functions[`${baseName}OnWrite`],
   };
 }
 
@@ -85,20 +87,24 @@ export function extractCallableFunctions(
 export function extractTriggerFunctions(
   functions: GeneratedFunctions,
   functionPrefix: string = "search"
-): Record<string, { onCreate?: any; onUpdate?: any; onDelete?: any }> {
+): Record<
+  string,
+  { onCreate?: any; onUpdate?: any; onDelete?: any; onWrite?: any }
+> {
   const triggerFunctions: Record<
     string,
-    { onCreate?: any; onUpdate?: any; onDelete?: any }
+    { onCreate?: any; onUpdate?: any; onDelete?: any; onWrite?: any }
   > = {};
 
   Object.entries(functions).forEach(([functionName, functionImpl]) => {
     if (
       functionName.includes("OnCreate") ||
       functionName.includes("OnUpdate") ||
-      functionName.includes("OnDelete")
+      functionName.includes("OnDelete") ||
+      functionName.includes("OnWrite")
     ) {
       let instanceId = functionName.replace(`${functionPrefix}`, "");
-      let triggerType: "onCreate" | "onUpdate" | "onDelete";
+      let triggerType: "onCreate" | "onUpdate" | "onDelete" | "onWrite";
 
       if (functionName.includes("OnCreate")) {
         instanceId = instanceId.replace("OnCreate", "");
@@ -106,9 +112,12 @@ export function extractTriggerFunctions(
       } else if (functionName.includes("OnUpdate")) {
         instanceId = instanceId.replace("OnUpdate", "");
         triggerType = "onUpdate";
-      } else {
+      } else if (functionName.includes("OnDelete")) {
         instanceId = instanceId.replace("OnDelete", "");
         triggerType = "onDelete";
+      } else {
+        instanceId = instanceId.replace("OnWrite", "");
+        triggerType = "onWrite";
       }
 
       instanceId = instanceId.toLowerCase();
@@ -164,7 +173,8 @@ export function createSelectiveExport(
             return (
               functionName.includes("OnCreate") ||
               functionName.includes("OnUpdate") ||
-              functionName.includes("OnDelete")
+              functionName.includes("OnDelete") ||
+              functionName.includes("OnWrite")
             );
           default:
             return false;
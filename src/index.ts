@@ -1,3 +1,6 @@
+import type { Request } from "express";
+import type { CallableRequest } from "firebase-functions/https";
+
 /**
  * TypeScript type for multi-field indexing properties (UNIFIED - remplace l'ancien single-field)
  */
@@ -12,22 +15,68 @@ export type FirestoreSearchEngineMultiIndexesProps = {
    * Multiple fields to index with optional configuration
    */
   inputFields: {
-    [fieldName: string]: {
-      /**
-       * Weight for this field in search relevance (optional, default: 1)
-       */
-      weight?: number;
-      /**
-       * Whether to enable fuzzy search for this field (optional, default: true)
-       */
-      fuzzySearch?: boolean;
-    };
+    [fieldPath: string]: FirestoreSearchEngineFieldConfig;
   };
   /**
    * The returned fields.
    */
   returnedFields: { indexedDocumentPath: string } & Record<string, any>;
+  /**
+   * The source document the field paths are resolved in (optional) default returnedFields.
+   */
+  sourceData?: Record<string, any>;
+  /**
+   * Update time of the source document, or time of its deletion (optional).
+   * Stored on the index document or its tombstone, updateIndex and deleteIndex
+   * do not overwrite an index written from a more recent source.
+   */
+  sourceUpdateTime?: Date;
+  /**
+   * Id of the trigger event being indexed (optional). Stored on the index document,
+   * updateIndex and deleteIndex skip an event that was already processed.
+   */
+  sourceEventId?: string;
 };
+
+/**
+ * Configuration of an indexed field.
+ * Keys are field paths: top-level fields (`name`), nested maps with dots
+ * (`address.city`) and arrays with [] (`tags[]`, `items[].name`), or the
+ * name of a computed field when compute is set.
+ */
+export type FirestoreSearchEngineFieldConfig = {
+  /**
+   * Weight for this field in search relevance (optional, default: 1)
+   */
+  weight?: number;
+  /**
+   * Whether to enable fuzzy search for this field (optional, default: true)
+   */
+  fuzzySearch?: boolean;
+  /**
+   * How array elements are indexed (optional) default "concat".
+   * Values: "concat" (one vector of the joined elements) | "each" (one vector per element)
+   */
+  arrayMode?: "concat" | "each";
+  /**
+   * Derives the indexed text from the source document (optional),
+   * e.g. (doc) => `${doc.firstName} ${doc.lastName}`.
+   * The field key is then the name of the computed field instead of a path.
+   */
+  compute?: (doc: Record<string, any>) => string | string[] | undefined;
+};
+
+/**
+ * Key copied from source documents on index documents: the name of a source
+ * field, or a projection computing the value stored under key.
+ */
+export type FirestoreSearchEngineReturnedKey =
+  | string
+  | {
+      key: string;
+      project: (doc: Record<string, any>) => any;
+    };
+
 /**
  * TypeScript type for multi-field batch indexing (UNIFIED - remplace l'ancien single-field)
  */
@@ -42,15 +91,12 @@ export type FirestoreSearchEngineMultiIndexesAllProps = {
    * Multiple keys to index with batch processing
    */
   indexedKeys: {
-    [fieldName: string]: {
-      weight?: number;
-      fuzzySearch?: boolean;
-    };
+    [fieldPath: string]: FirestoreSearchEngineFieldConfig;
   };
   /**
    * An Array of object keys you want to be returned from index collection.
    */
-  returnedKey: string[];
+  returnedKey: FirestoreSearchEngineReturnedKey[];
 };
 
 /**
@@ -62,7 +108,8 @@ export type FirestoreSearchEngineSearchProps = {
    */
   fieldValue: string;
   /**
-   * Specific field to search in (optional, if not provided searches in all indexed fields)
+   * Specific indexed field to search in (optional).
+   * Searches the _vector_[searchField] vector, cannot be combined with fieldWeights.
    */
   searchField?: string;
   /**
@@ -76,9 +123,14 @@ export type FirestoreSearchEngineSearchProps = {
    */
   distanceThreshold?: number;
   /**
-   * Weights for different fields when searching across multiple fields
+   * Weights for different fields when searching across multiple fields (optional).
+   * Runs one search per field and combines the weighted results like searchMultiField.
    */
   fieldWeights?: { [fieldName: string]: number };
+  /**
+   * Strategy combining the weighted field scores (optional) default engine multiFieldFusion.
+   */
+  fusion?: FirestoreSearchEngineFusionStrategy;
   /**
    * Whether to enable fuzzy search
    */
@@ -91,8 +143,139 @@ export type FirestoreSearchEngineSearchProps = {
    * Filter by field name in multi-field indexes
    */
   fieldFilter?: string;
+  /**
+   * Search mode, overrides the engine searchMode (optional).
+   * Values: "vector" | "hybrid" (vector + lexical tokens fused with RRF)
+   */
+  mode?: FirestoreSearchEngineSearchMode;
+  /**
+   * Where clauses applied before the vector search (optional).
+   * Only the returnedKeys of the engine configuration can be filtered.
+   */
+  filters?: FirestoreSearchEngineFilter[];
+  /**
+   * Tenant to search in, required when the engine has a tenant configuration.
+   */
+  tenantId?: string;
+  /**
+   * Token of the page to return, from the nextPageToken of a previous page (optional).
+   */
+  pageToken?: string;
 };
 
+/**
+ * TypeScript type for autocomplete properties
+ */
+export type FirestoreSearchEngineAutocompleteProps = {
+  /**
+   * The text typed so far, its last word may be incomplete.
+   */
+  prefix: string;
+  /**
+   * The number of suggestions returned (optional) default 10.
+   */
+  limit?: number;
+  /**
+   * Autocomplete fields suggested (optional) default engine autocomplete.fields.
+   */
+  fields?: string[];
+  /**
+   * Where clauses applied to the suggestions (optional), see search filters.
+   */
+  filters?: FirestoreSearchEngineFilter[];
+  /**
+   * Tenant to search in, required when the engine has a tenant configuration.
+   */
+  tenantId?: string;
+  /**
+   * Markers around the matched prefixes (optional) default <em> and </em>.
+   */
+  highlight?: { pre?: string; post?: string };
+};
+
+/**
+ * TypeScript type for an autocomplete suggestion
+ */
+export type FirestoreSearchEngineSuggestion = {
+  [x: string]: any;
+  indexedDocumentPath: string;
+  _suggestion: {
+    /**
+     * The indexed field that matched.
+     */
+    field: string;
+    /**
+     * The indexed (normalized) value of the field.
+     */
+    value: string;
+    /**
+     * The value with the matched prefixes highlighted.
+     */
+    highlighted: string;
+  };
+  _autocompleteScore: number;
+};
+
+/**
+ * TypeScript type for a page of search results
+ */
+export type FirestoreSearchEngineSearchPage = {
+  results: FirestoreSearchEngineReturnType;
+  /**
+   * Token of the next page, undefined on the last page.
+   */
+  nextPageToken?: string;
+};
+
+/**
+ * Firestore operators accepted by search filters
+ */
+export type FirestoreSearchEngineFilterOperator =
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "in"
+  | "not-in"
+  | "array-contains"
+  | "array-contains-any";
+
+/**
+ * TypeScript type for a search filter, e.g. { field: "category", op: "==", value: "shoes" }
+ */
+export type FirestoreSearchEngineFilter = {
+  /**
+   * The returned key to filter on.
+   */
+  field: string;
+  /**
+   * The Firestore operator.
+   */
+  op: FirestoreSearchEngineFilterOperator;
+  /**
+   * The compared value (an array for "in", "not-in" and "array-contains-any").
+   */
+  value: unknown;
+};
+
+/**
+ * Strategies combining the scores of a document found in several fields:
+ * "max" | "weightedSum" | "weightedMean" | "rrf" (weighted reciprocal rank fusion)
+ */
+export type FirestoreSearchEngineFusionStrategy =
+  | "max"
+  | "weightedSum"
+  | "weightedMean"
+  | "rrf";
+
+/**
+ * Search modes: "vector" uses findNearest only, "hybrid" also queries the
+ * lexical tokens of index documents and fuses both rankings
+ */
+export type FirestoreSearchEngineSearchMode = "vector" | "hybrid";
+
 /**
  * TypeScript type for multi-field search properties
  */
@@ -124,6 +307,31 @@ export type FirestoreSearchEngineMultiSearchProps = {
    * The accepted distance threshold for vector similarity
    */
   distanceThreshold?: number;
+  /**
+   * Strategy combining the scores of the fields (optional) default engine multiFieldFusion.
+   */
+  fusion?: FirestoreSearchEngineFusionStrategy;
+  /**
+   * Query the combined vector in a single findNearest instead of one query
+   * per field (optional) default false, requires the combinedVector option.
+   */
+  useCombinedVector?: boolean;
+  /**
+   * Search mode used for each field (optional) default engine searchMode.
+   */
+  mode?: FirestoreSearchEngineSearchMode;
+  /**
+   * Where clauses applied to each field search (optional).
+   */
+  filters?: FirestoreSearchEngineFilter[];
+  /**
+   * Tenant to search in, required when the engine has a tenant configuration.
+   */
+  tenantId?: string;
+  /**
+   * Token of the page to return, from the nextPageToken of a previous page (optional).
+   */
+  pageToken?: string;
 };
 
 /**
@@ -153,6 +361,320 @@ export type FirestoreSearchEngineConfig = {
    * Default: false
    */
   skipFirestoreSettings?: boolean;
+  /**
+   * The embedding provider used to vectorize indexed fields and queries (optional).
+   * Default: FastEmbedProvider with the AllMiniLML6V2 model.
+   */
+  embeddingProvider?: EmbeddingProvider;
+  /**
+   * Behavior when an index document was vectorized by another model than the
+   * current embedding provider (optional).
+   * Values: "warn" (log and keep the results) | "error" (refuse the search)
+   * Default: "warn"
+   */
+  modelMismatch?: "warn" | "error";
+  /**
+   * Number of documents vectorized per embedding call by indexesAll (optional) default 32.
+   */
+  embeddingBatchSize?: number;
+  /**
+   * Cache of the query vectors (optional) enabled by default in memory.
+   */
+  queryCache?: FirestoreSearchEngineQueryCacheConfig;
+  /**
+   * Default search mode (optional) default "vector".
+   */
+  searchMode?: FirestoreSearchEngineSearchMode;
+  /**
+   * Default strategy combining multi-field scores (optional) default "max".
+   */
+  multiFieldFusion?: FirestoreSearchEngineFusionStrategy;
+  /**
+   * Store a combined vector (weighted mean of the field vectors using the
+   * field weights) on index documents (optional) default false.
+   * Searches without searchField then use this single vector.
+   */
+  combinedVector?: boolean;
+  /**
+   * Keys copied from source documents on index documents (optional).
+   * Required to use search filters, which may only reference these keys.
+   */
+  returnedKeys?: string[];
+  /**
+   * Multi-tenant isolation (optional): index documents are stamped with a
+   * tenant id and every search is restricted to the tenant of the request.
+   */
+  tenant?: FirestoreSearchEngineTenantConfig;
+  /**
+   * Split fields longer than wordMaxLength into overlapping passages, each
+   * indexed in its own chunk document (optional) default disabled.
+   */
+  chunking?: FirestoreSearchEngineChunkingConfig;
+  /**
+   * Normalizer chain applied to indexed texts and to queries (optional)
+   * default lowercase and trim only.
+   */
+  normalization?: FirestoreSearchEngineNormalizationConfig;
+  /**
+   * Synonyms expanding queries into several embeddings whose results are
+   * merged (optional).
+   */
+  synonyms?: FirestoreSearchEngineSynonymsConfig;
+  /**
+   * Phonetic keys stored on index documents, used as an extra candidate
+   * source and ranking signal (optional) default disabled.
+   */
+  phonetic?: FirestoreSearchEnginePhoneticConfig;
+  /**
+   * Edge n-grams stored on index documents for autocomplete (optional)
+   * default disabled.
+   */
+  autocomplete?: FirestoreSearchEngineAutocompleteConfig;
+  /**
+   * Weights of the signals ranking vector results (optional).
+   */
+  scoring?: FirestoreSearchEngineScoringConfig;
+  /**
+   * Lifetime of the tombstones of deleted documents in seconds (optional)
+   * default 30 days. Tombstones hold their expiry date in _expires_at:
+   * enable a TTL policy on this field of the index collection to remove them.
+   */
+  tombstoneTtlSeconds?: number;
+  /**
+   * Return debugging details on results, like _scoreBreakdown (optional) default false.
+   */
+  debug?: boolean;
+};
+
+/**
+ * Signals of the scoring model, each from 0 to 1 (fieldWeight is the field weight):
+ * - vectorSimilarity: 1 - COSINE distance
+ * - editDistance: normalized edit similarity between the query and the field
+ * - prefixMatch: the field or one of its words starts with the query
+ * - exactToken: share of the query words found in the field
+ * - fieldWeight: weight of the matched field
+ */
+export type FirestoreSearchEngineScoringSignal =
+  | "vectorSimilarity"
+  | "editDistance"
+  | "prefixMatch"
+  | "exactToken"
+  | "fieldWeight";
+
+/**
+ * Weights of the scoring signals, the score is their weighted mean.
+ */
+export type FirestoreSearchEngineScoringWeights = {
+  [signal in FirestoreSearchEngineScoringSignal]?: number;
+};
+
+/**
+ * Scoring model ranking vector results.
+ */
+export type FirestoreSearchEngineScoringConfig = {
+  /**
+   * Weights overriding the defaults (optional) default
+   * { vectorSimilarity: 0.7, editDistance: 0.15, prefixMatch: 0.05, exactToken: 0.1, fieldWeight: 0 }.
+   */
+  weights?: FirestoreSearchEngineScoringWeights;
+};
+
+/**
+ * Prefix index used by autocomplete.
+ */
+export type FirestoreSearchEngineAutocompleteConfig = {
+  /**
+   * Enable the edge n-grams (optional) default true when the config is set.
+   */
+  enabled?: boolean;
+  /**
+   * Indexed fields suggested by autocomplete (optional) default all the indexed fields.
+   */
+  fields?: string[];
+  /**
+   * Length of the shortest indexed prefix (optional) default 2.
+   */
+  minPrefixLength?: number;
+  /**
+   * Length of the longest indexed prefix (optional) default 15.
+   */
+  maxPrefixLength?: number;
+};
+
+/**
+ * Phonetic matching of names and addresses.
+ */
+export type FirestoreSearchEnginePhoneticConfig = {
+  /**
+   * Enable phonetic matching (optional) default true when the config is set.
+   */
+  enabled?: boolean;
+  /**
+   * Algorithms computing the keys (optional) default ["soundex2"].
+   * Values: "soundex" | "soundex2" (French)
+   */
+  algorithms?: FirestoreSearchEnginePhoneticAlgorithm[];
+  /**
+   * Indexed fields the keys are computed for (optional) default all the indexed fields.
+   */
+  fields?: string[];
+};
+
+/**
+ * Phonetic algorithms: American Soundex and the French Soundex2.
+ */
+export type FirestoreSearchEnginePhoneticAlgorithm = "soundex" | "soundex2";
+
+/**
+ * Synonym dictionary used for query expansion.
+ */
+export type FirestoreSearchEngineSynonymsConfig = {
+  /**
+   * Synonyms keyed by term, e.g. { tel: ["telephone"], appart: ["appartement"] } (optional).
+   */
+  map?: { [term: string]: string[] };
+  /**
+   * Path of a Firestore document holding more synonyms, as { synonyms: { term: [...] } } (optional).
+   */
+  document?: string;
+  /**
+   * Seconds the document synonyms are kept before being read again (optional) default 300.
+   */
+  cacheSeconds?: number;
+  /**
+   * Maximum number of expansions searched besides the query (optional) default 3.
+   */
+  maxExpansions?: number;
+};
+
+/**
+ * Text normalization applied the same way at index and query time.
+ */
+export type FirestoreSearchEngineNormalizationConfig = {
+  /**
+   * Fold accents and ligatures, "Élise" → "elise" (optional) default true.
+   */
+  foldAccents?: boolean;
+  /**
+   * Replace punctuation with spaces (optional) default true.
+   */
+  stripPunctuation?: boolean;
+  /**
+   * Words removed from texts: a built-in language list or custom words (optional).
+   */
+  stopwords?: "fr" | "en" | string[];
+  /**
+   * Synonyms and abbreviations replaced by their canonical form,
+   * e.g. { st: "saint", bd: "boulevard" } (optional).
+   */
+  dictionary?: { [term: string]: string };
+  /**
+   * Custom normalizers run after the built-in steps (optional).
+   */
+  custom?: ((text: string) => string)[];
+};
+
+/**
+ * Chunked indexing of long text fields.
+ */
+export type FirestoreSearchEngineChunkingConfig = {
+  /**
+   * Enable chunking (optional) default true when the config is set.
+   */
+  enabled?: boolean;
+  /**
+   * Maximum length of a passage in characters (optional) default 200.
+   */
+  chunkSize?: number;
+  /**
+   * Characters shared by two consecutive passages (optional) default 50.
+   */
+  overlap?: number;
+  /**
+   * Maximum number of passages per field (optional) default 20.
+   */
+  maxChunks?: number;
+};
+
+/**
+ * TypeScript type for the multi-tenant configuration
+ */
+export type FirestoreSearchEngineTenantConfig = {
+  /**
+   * Index of the source document path segment holding the tenant id,
+   * e.g. 1 for "organizations/{orgId}/users/{userId}".
+   */
+  pathSegment?: number;
+  /**
+   * Field of the source document holding the tenant id (if no pathSegment).
+   */
+  sourceField?: string;
+  /**
+   * Auth token claim holding the tenant id of the caller (optional) default "tenantId".
+   */
+  authClaim?: string;
+  /**
+   * Resolves the tenant id of a search request (optional).
+   * Default: the authClaim of the auth token, so HTTP requests are refused
+   * unless this callback is provided.
+   */
+  resolveTenant?: (
+    context: FirestoreSearchEngineTenantContext
+  ) => string | undefined | Promise<string | undefined>;
+};
+
+/**
+ * Context available to resolve the tenant of a search request
+ */
+export type FirestoreSearchEngineTenantContext = {
+  auth?: CallableRequest["auth"];
+  request?: Request;
+  data?: any;
+};
+
+/**
+ * TypeScript type for the query embedding cache configuration
+ */
+export type FirestoreSearchEngineQueryCacheConfig = {
+  /**
+   * Whether query vectors are cached (optional) default true.
+   */
+  enabled?: boolean;
+  /**
+   * Maximum number of query vectors kept in memory (optional) default 500.
+   */
+  maxSize?: number;
+  /**
+   * Collection persisting the query vectors across cold starts (optional).
+   * Enable a Firestore TTL policy on its "expiresAt" field to purge it.
+   */
+  persistentCollection?: string;
+  /**
+   * Lifetime of the persisted vectors in seconds (optional) default 30 days.
+   */
+  ttlSeconds?: number;
+};
+
+/**
+ * TypeScript type for an embedding provider (fastembed, BGE, custom ONNX, stub...)
+ */
+export type EmbeddingProvider = {
+  /**
+   * Identifier of the model producing the vectors.
+   */
+  readonly modelId: string;
+  /**
+   * Dimension of the produced vectors.
+   */
+  readonly dimension: number;
+  /**
+   * Vectorizes a single text.
+   */
+  embed(text: string): Promise<number[]>;
+  /**
+   * Vectorizes several texts, vectors are returned in the same order.
+   */
+  embedBatch(texts: string[], batchSize?: number): Promise<number[][]>;
 };
 
 export type FirestoreSearchEngineReturnType = {
@@ -174,6 +696,14 @@ export type PathWithSubCollectionsMaxDepth4 =
  */
 export { FirestoreSearchEngine } from "./FirestoreSearchEngine";
 
+/**
+ * Exports Embedding Providers
+ */
+export { FastEmbedProvider } from "./shared/vectorize";
+export type { FastEmbedProviderOptions } from "./shared/vectorize";
+export { QueryEmbeddingCache } from "./shared/queryEmbeddingCache";
+export type { QueryEmbeddingCacheStats } from "./shared/queryEmbeddingCache";
+
 /**
  * Exports Cloud Functions Management modules
  */
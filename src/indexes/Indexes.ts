@@ -1,10 +1,70 @@
-import type { BulkWriter } from "@google-cloud/firestore";
+import type {
+  BulkWriter,
+  DocumentData,
+  DocumentReference,
+  Transaction,
+} from "@google-cloud/firestore";
 import { firestore } from "firebase-admin";
 import type {
+  EmbeddingProvider,
   FirestoreSearchEngineConfig,
   FirestoreSearchEngineMultiIndexesProps,
 } from "..";
-import { fse_vectorizeText } from "../shared/vectorize";
+import {
+  FSE_COMBINED_VECTOR_FIELD,
+  fse_combineVectors,
+} from "../shared/combineVectors";
+import { fse_splitIntoPassages } from "../shared/chunkText";
+import { FSE_EDGE_NGRAMS_FIELD, fse_edgeNgrams } from "../shared/edgeNgrams";
+import {
+  fse_indexFieldName,
+  fse_isArrayFieldPath,
+  fse_resolveIndexedTexts,
+} from "../shared/fieldPath";
+import {
+  fse_chunkDocumentId,
+  fse_indexDocumentId,
+} from "../shared/indexDocumentId";
+import {
+  FSE_DELETED_FIELD,
+  FSE_EXPIRES_AT_FIELD,
+  FSE_LAST_EVENT_ID_FIELD,
+  FSE_SOURCE_UPDATE_TIME_FIELD,
+  fse_isOutdatedIndex,
+  fse_isReplayedEvent,
+  fse_isTombstone,
+} from "../shared/indexVersion";
+import { fse_lexicalTokens } from "../shared/lexical";
+import { fse_createNormalizer } from "../shared/normalize";
+import {
+  FSE_PHONETIC_FIELD,
+  fse_phoneticAlgorithms,
+  fse_phoneticKeys,
+} from "../shared/phonetic";
+import { FSE_TENANT_FIELD, fse_getIndexTenantId } from "../shared/tenant";
+import { fse_getEmbeddingProvider } from "../shared/vectorize";
+
+/**
+ * Passage of a long field or element of an array field, indexed in its own chunk document
+ */
+export type IndexPassage = {
+  field: string;
+  index: number;
+  offset: number;
+  text: string;
+  /**
+   * Index of the array element the passage comes from (arrayMode "each")
+   */
+  element?: number;
+};
+
+/**
+ * Texts of a document to vectorize: short fields and passages of long fields
+ */
+export type PreparedIndexTexts = {
+  fields: { [fieldName: string]: string };
+  passages: IndexPassage[];
+};
 
 /**
  * Unified indexes class for multi-field processing
@@ -13,6 +73,8 @@ import { fse_vectorizeText } from "../shared/vectorize";
 export class Indexes {
   wordMinLength: number;
   wordMaxLength: number;
+  embeddingProvider: EmbeddingProvider;
+  normalize: (text: string) => string;
 
   constructor(
     private readonly firestoreInstance: firestore.Firestore,
@@ -22,35 +84,26 @@ export class Indexes {
   ) {
     this.wordMinLength = config.wordMinLength || 3;
     this.wordMaxLength = config.wordMaxLength || 50;
+    this.embeddingProvider = fse_getEmbeddingProvider(
+      config,
+      this.wordMaxLength
+    );
+    this.normalize = fse_createNormalizer(config.normalization);
   }
 
   /**
    * Indexes a document with multiple fields using batch vectorization
-   * Creates a single document with multiple _vector_[fieldName] fields
+   * Creates a single document with multiple _vector_[fieldName] fields,
+   * plus one chunk document per passage of the long fields
    */
   async indexes(): Promise<void> {
     const indexedDocumentPath = this.props.returnedFields.indexedDocumentPath;
 
     try {
       // Préparer les données pour la vectorisation en batch
-      const fieldsToVectorize: { [fieldName: string]: string } = {};
-      const fieldConfigs = this.props.inputFields;
-
-      // Collecter tous les textes à vectoriser
-      for (const [fieldName, fieldConfig] of Object.entries(fieldConfigs)) {
-        const fieldValue = this.props.returnedFields[fieldName];
-        if (fieldValue && typeof fieldValue === "string") {
-          const cleanText = fieldValue.toLowerCase().trim();
-          if (
-            cleanText.length >= this.wordMinLength &&
-            cleanText.length <= this.wordMaxLength
-          ) {
-            fieldsToVectorize[fieldName] = cleanText;
-          }
-        }
-      }
+      const prepared = this.prepareTexts();
 
-      if (Object.keys(fieldsToVectorize).length === 0) {
+      if (Indexes.textsOf(prepared).length === 0) {
         console.warn(
           `⚠️ Aucun champ valide à indexer pour ${indexedDocumentPath}`
         );
@@ -58,42 +111,31 @@ export class Indexes {
       }
 
       // Vectorisation en batch (optimisé)
-      const vectorBatch = await this.batchVectorize(fieldsToVectorize);
-
-      // Créer un seul document avec tous les vecteurs
-      const indexDocument: any = {
-        ...this.props.returnedFields,
-        _indexed_at: this.fieldValueInstance.serverTimestamp(),
-        _field_weights: {},
-        _field_configs: {},
-      };
+      const vectors = await this.batchVectorize(Indexes.textsOf(prepared));
+      const documents = this.buildIndexDocuments(prepared, vectors);
 
-      // Ajouter tous les vecteurs au même document
-      for (const [fieldName, vector] of Object.entries(vectorBatch)) {
-        const fieldConfig = fieldConfigs[fieldName];
-
-        // Utiliser le format _vector_[fieldName]
-        indexDocument[`_vector_${fieldName}`] =
-          this.fieldValueInstance.vector(vector);
-        indexDocument[`${fieldName}_original`] = fieldsToVectorize[fieldName];
-        indexDocument._field_weights[fieldName] = fieldConfig?.weight || 1.0;
-        indexDocument._field_configs[fieldName] = {
-          fuzzySearch: fieldConfig?.fuzzySearch ?? true,
-          weight: fieldConfig?.weight || 1.0,
-        };
+      // Un document avec tous les vecteurs + les documents des passages,
+      // écrits sous des ids déterministes (set idempotent)
+      const batch = this.firestoreInstance.batch();
+      for (const { ref, data } of documents) {
+        batch.set(ref, data);
       }
-
-      // Sauvegarder dans la collection de recherche
-      const searchIndexRef = this.firestoreInstance
-        .collection(this.config.collection)
-        .doc();
-
-      await searchIndexRef.set(indexDocument);
+      const previous = await this.indexRef().get();
+      for (const ref of this.staleChunkRefs(previous.data(), documents)) {
+        batch.delete(ref);
+      }
+      if (!previous.exists) {
+        // Premier index sous l'id déterministe : supprimer les anciens ids aléatoires
+        for (const ref of await this.legacyIndexRefs()) {
+          batch.delete(ref);
+        }
+      }
+      await batch.commit();
 
       console.log(
         `✅ Multi-index créé avec ${
-          Object.keys(fieldsToVectorize).length
-        } vecteurs dans collection "${
+          Object.keys(prepared.fields).length
+        } vecteurs et ${prepared.passages.length} passages dans collection "${
           this.config.collection
         }": ${indexedDocumentPath}`
       );
@@ -112,59 +154,19 @@ export class Indexes {
    */
   async bulkIndexes(bulkWriter: BulkWriter): Promise<void> {
     const indexedDocumentPath = this.props.returnedFields.indexedDocumentPath;
-    const docRef = this.firestoreInstance
-      .collection(this.config.collection)
-      .doc();
 
     try {
-      // Préparer les données pour la vectorisation
-      const fieldsToVectorize: { [fieldName: string]: string } = {};
-      const fieldConfigs = this.props.inputFields;
-
-      for (const [fieldName, fieldConfig] of Object.entries(fieldConfigs)) {
-        const fieldValue = this.props.returnedFields[fieldName];
-        if (fieldValue && typeof fieldValue === "string") {
-          const cleanText = fieldValue.toLowerCase().trim();
-          if (
-            cleanText.length >= this.wordMinLength &&
-            cleanText.length <= this.wordMaxLength
-          ) {
-            fieldsToVectorize[fieldName] = cleanText;
-          }
-        }
-      }
+      const prepared = this.prepareTexts();
+      const texts = Indexes.textsOf(prepared);
 
-      if (Object.keys(fieldsToVectorize).length === 0) {
+      if (texts.length === 0) {
         return; // Skip silently in bulk operations
       }
 
       // Vectorisation en batch
-      const vectorBatch = await this.batchVectorize(fieldsToVectorize);
-
-      // Préparer le document d'index avec tous les vecteurs
-      const indexDocument: any = {
-        ...this.props.returnedFields,
-        _indexed_at: this.fieldValueInstance.serverTimestamp(),
-        _field_weights: {},
-        _field_configs: {},
-      };
-
-      // Ajouter tous les vecteurs au même document
-      for (const [fieldName, vector] of Object.entries(vectorBatch)) {
-        const fieldConfig = fieldConfigs[fieldName];
-
-        indexDocument[`_vector_${fieldName}`] =
-          this.fieldValueInstance.vector(vector);
-        indexDocument[`${fieldName}_original`] = fieldsToVectorize[fieldName];
-        indexDocument._field_weights[fieldName] = fieldConfig?.weight || 1.0;
-        indexDocument._field_configs[fieldName] = {
-          fuzzySearch: fieldConfig?.fuzzySearch ?? true,
-          weight: fieldConfig?.weight || 1.0,
-        };
-      }
+      const vectors = await this.batchVectorize(texts);
 
-      // Ajouter à la queue du bulk writer
-      bulkWriter.set(docRef, indexDocument);
+      void this.bulkIndexesWithVectors(bulkWriter, prepared, vectors);
     } catch (error) {
       console.error(
         `❌ Erreur bulk indexation multi-champs de ${indexedDocumentPath}:`,
@@ -175,32 +177,362 @@ export class Indexes {
   }
 
   /**
-   * Batch vectorization of multiple fields using fastEmbed
+   * Queues the index documents in the bulk writer with already computed vectors
+   * Used by IndexesAll which vectorizes a whole chunk of documents at once
+   * @param vectors The vectors of Indexes.textsOf(prepared), in the same order
+   * @return {Promise<void>} - Resolves when the index documents are written (after a flush).
    */
-  private async batchVectorize(fieldsToVectorize: {
-    [fieldName: string]: string;
-  }): Promise<{ [fieldName: string]: number[] }> {
-    try {
-      // Préparer les textes pour la vectorisation en batch
-      const fieldNames = Object.keys(fieldsToVectorize);
-      const texts = Object.values(fieldsToVectorize);
+  bulkIndexesWithVectors(
+    bulkWriter: BulkWriter,
+    prepared: PreparedIndexTexts,
+    vectors: number[][],
+    previousIndex?: DocumentData
+  ): Promise<void> {
+    const documents = this.buildIndexDocuments(prepared, vectors);
+
+    // Ajouter à la queue du bulk writer
+    const writes = documents.map(({ ref, data }) => bulkWriter.set(ref, data));
+    for (const ref of this.staleChunkRefs(previousIndex, documents)) {
+      bulkWriter.delete(ref);
+    }
+    return Promise.all(writes).then(() => undefined);
+  }
 
-      if (texts.length === 0) {
-        return {};
+  /**
+   * Adds the deletion of the index document and of its chunk documents to a bulk writer
+   */
+  bulkDeleteIndex(bulkWriter: BulkWriter, previousIndex: DocumentData): void {
+    bulkWriter.delete(this.indexRef());
+    for (const ref of this.staleChunkRefs(previousIndex, [])) {
+      bulkWriter.delete(ref);
+    }
+  }
+
+  /**
+   * Reference of the index document, its id is derived from indexedDocumentPath
+   */
+  indexRef(): DocumentReference {
+    return this.firestoreInstance
+      .collection(this.config.collection)
+      .doc(fse_indexDocumentId(this.props.returnedFields.indexedDocumentPath));
+  }
+
+  /**
+   * Index documents written with random ids before ids were derived from
+   * indexedDocumentPath, found with the former where query. They are deleted
+   * when the document is indexed or deleted and its deterministic index
+   * document does not exist yet (one-shot migration).
+   * @param {Transaction} transaction - Reads in this transaction (optional).
+   * @return {Promise<DocumentReference[]>} - The legacy index documents of the document.
+   */
+  async legacyIndexRefs(
+    transaction?: Transaction
+  ): Promise<DocumentReference[]> {
+    const indexId = this.indexRef().id;
+    const query = this.firestoreInstance
+      .collection(this.config.collection)
+      .where(
+        "indexedDocumentPath",
+        "==",
+        this.props.returnedFields.indexedDocumentPath
+      );
+    const snapshot = transaction
+      ? await transaction.get(query)
+      : await query.get();
+
+    return snapshot.docs
+      .filter((doc) => doc.id !== indexId && !doc.id.startsWith(`${indexId}__`))
+      .map((doc) => doc.ref);
+  }
+
+  /**
+   * Chunk documents of the previous index that are not written again
+   */
+  private staleChunkRefs(
+    previousIndex: DocumentData | undefined,
+    documents: { ref: DocumentReference }[]
+  ): DocumentReference[] {
+    const previousIds: unknown = previousIndex?._chunk_ids;
+    if (!Array.isArray(previousIds)) return [];
+
+    const writtenIds = new Set(documents.map(({ ref }) => ref.id));
+    const collection = this.firestoreInstance.collection(
+      this.config.collection
+    );
+    return previousIds
+      .filter((id) => typeof id === "string" && !writtenIds.has(id))
+      .map((id) => collection.doc(id));
+  }
+
+  /**
+   * Collects the cleaned texts of the fields to vectorize
+   * Fields are resolved from their path (`address.city`, `tags[]`) or their
+   * compute function in the source document. Fields shorter than wordMinLength are skipped, fields
+   * longer than wordMaxLength are split into passages when chunking is enabled
+   */
+  prepareTexts(): PreparedIndexTexts {
+    const prepared: PreparedIndexTexts = { fields: {}, passages: [] };
+    const sourceData = this.props.sourceData ?? this.props.returnedFields;
+
+    for (const [fieldPath, fieldConfig] of Object.entries(
+      this.props.inputFields
+    )) {
+      const fieldName = fse_indexFieldName(fieldPath);
+      const texts = fse_resolveIndexedTexts(sourceData, fieldPath, fieldConfig)
+        .map(this.normalize)
+        .filter((text) => text.length > 0);
+
+      if (
+        (fse_isArrayFieldPath(fieldPath) || fieldConfig?.compute) &&
+        fieldConfig?.arrayMode === "each"
+      ) {
+        // Un document par élément du tableau, comme pour les passages
+        texts.forEach((text, element) => {
+          if (text.length < this.wordMinLength) return;
+          if (text.length <= this.wordMaxLength) {
+            prepared.passages.push({
+              field: fieldName,
+              index: Indexes.passageCount(prepared, fieldName),
+              offset: 0,
+              text,
+              element,
+            });
+          } else {
+            this.pushPassages(prepared, fieldName, text, element);
+          }
+        });
+        continue;
       }
 
-      // Vectorisation en une seule fois (plus efficace)
-      const vectors = await Promise.all(
-        texts.map((text) => fse_vectorizeText(text, this.wordMaxLength))
+      // Les éléments des tableaux sont concaténés en un seul texte
+      const cleanText = texts.join(" ");
+      if (cleanText.length < this.wordMinLength) continue;
+
+      if (cleanText.length <= this.wordMaxLength) {
+        prepared.fields[fieldName] = cleanText;
+      } else {
+        this.pushPassages(prepared, fieldName, cleanText);
+      }
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Splits a long text into passages when chunking is enabled
+   */
+  private pushPassages(
+    prepared: PreparedIndexTexts,
+    fieldName: string,
+    text: string,
+    element?: number
+  ) {
+    const chunking = this.config.chunking;
+    if (!chunking || chunking.enabled === false) return;
+
+    for (const passage of fse_splitIntoPassages(
+      text,
+      chunking.chunkSize ?? 200,
+      chunking.overlap ?? 50,
+      chunking.maxChunks ?? 20
+    )) {
+      prepared.passages.push({
+        field: fieldName,
+        index: Indexes.passageCount(prepared, fieldName),
+        ...passage,
+        ...(element !== undefined ? { element } : {}),
+      });
+    }
+  }
+
+  /**
+   * Number of passages already prepared for a field
+   */
+  private static passageCount(prepared: PreparedIndexTexts, fieldName: string) {
+    return prepared.passages.filter((passage) => passage.field === fieldName)
+      .length;
+  }
+
+  /**
+   * Texts to vectorize for prepared fields: fields first, then passages
+   */
+  static textsOf(prepared: PreparedIndexTexts): string[] {
+    return [
+      ...Object.values(prepared.fields),
+      ...prepared.passages.map((passage) => passage.text),
+    ];
+  }
+
+  /**
+   * Builds the index document holding all the _vector_[fieldName] fields
+   * and the chunk documents of the passages
+   */
+  private buildIndexDocuments(
+    prepared: PreparedIndexTexts,
+    vectors: number[][]
+  ): { ref: DocumentReference; data: any }[] {
+    // Configurations indexées par nom de champ (address.city → address__city)
+    const fieldConfigs = Object.fromEntries(
+      Object.entries(this.props.inputFields).map(([fieldPath, fieldConfig]) => [
+        fse_indexFieldName(fieldPath),
+        fieldConfig,
+      ])
+    );
+    const fieldNames = Object.keys(prepared.fields);
+    const collection = this.firestoreInstance.collection(
+      this.config.collection
+    );
+
+    const baseDocument: any = {
+      ...this.props.returnedFields,
+      _indexed_at: this.fieldValueInstance.serverTimestamp(),
+      _embedding_model: this.embeddingProvider.modelId,
+      _embedding_dimension: this.embeddingProvider.dimension,
+    };
+    if (this.config.tenant) {
+      baseDocument[FSE_TENANT_FIELD] = fse_getIndexTenantId(
+        this.config.tenant,
+        this.props.returnedFields
+      );
+    }
+
+    const indexDocument: any = {
+      ...baseDocument,
+      _field_weights: {},
+      _field_configs: {},
+      // Tokens et trigrammes pour la recherche lexicale (mode hybride)
+      _lexical_tokens: Array.from(
+        new Set(Object.values(prepared.fields).flatMap(fse_lexicalTokens))
+      ),
+      _chunk_count: prepared.passages.length,
+    };
+    if (this.props.sourceUpdateTime) {
+      indexDocument[FSE_SOURCE_UPDATE_TIME_FIELD] = this.props.sourceUpdateTime;
+    }
+    if (this.props.sourceEventId) {
+      indexDocument[FSE_LAST_EVENT_ID_FIELD] = this.props.sourceEventId;
+    }
+    if (this.isPhoneticEnabled()) {
+      indexDocument[FSE_PHONETIC_FIELD] = this.phoneticKeys(
+        Object.entries(prepared.fields)
+      );
+    }
+    const autocomplete = this.config.autocomplete;
+    if (autocomplete && autocomplete.enabled !== false) {
+      // Préfixes des mots des champs proposés par l'autocomplétion
+      const fields = autocomplete.fields?.map(fse_indexFieldName);
+      indexDocument[FSE_EDGE_NGRAMS_FIELD] = Array.from(
+        new Set(
+          Object.entries(prepared.fields)
+            .filter(([fieldName]) => !fields || fields.includes(fieldName))
+            .flatMap(([, text]) =>
+              fse_edgeNgrams(
+                text,
+                autocomplete.minPrefixLength ?? 2,
+                autocomplete.maxPrefixLength ?? 15
+              )
+            )
+        )
+      );
+    }
+
+    // Ajouter tous les vecteurs au même document
+    fieldNames.forEach((fieldName, index) => {
+      const fieldConfig = fieldConfigs[fieldName];
+
+      // Utiliser le format _vector_[fieldName]
+      indexDocument[`_vector_${fieldName}`] = this.fieldValueInstance.vector(
+        vectors[index]
       );
+      indexDocument[`${fieldName}_original`] = prepared.fields[fieldName];
+      indexDocument._field_weights[fieldName] = fieldConfig?.weight || 1.0;
+      indexDocument._field_configs[fieldName] = {
+        fuzzySearch: fieldConfig?.fuzzySearch ?? true,
+        weight: fieldConfig?.weight || 1.0,
+      };
+    });
+
+    // Vecteur combiné (moyenne pondérée) pour servir la plupart des recherches en une requête
+    if (this.config.combinedVector) {
+      const combinedVector = fse_combineVectors(
+        fieldNames.map((fieldName, index) => ({
+          vector: vectors[index],
+          weight: indexDocument._field_weights[fieldName],
+        }))
+      );
+      if (combinedVector.length > 0) {
+        indexDocument[FSE_COMBINED_VECTOR_FIELD] =
+          this.fieldValueInstance.vector(combinedVector);
+      }
+    }
 
-      // Reconstituer l'objet avec les noms de champs
-      const result: { [fieldName: string]: number[] } = {};
-      fieldNames.forEach((fieldName, index) => {
-        result[fieldName] = vectors[index];
+    const indexRef = this.indexRef();
+    const chunkIds = prepared.passages.map((passage) =>
+      fse_chunkDocumentId(indexRef.id, passage)
+    );
+    indexDocument._chunk_ids = chunkIds;
+
+    const documents = [{ ref: indexRef, data: indexDocument }];
+
+    // Un document par passage, portant le vecteur du champ d'origine
+    prepared.passages.forEach((passage, index) => {
+      const fieldConfig = fieldConfigs[passage.field];
+      documents.push({
+        ref: collection.doc(chunkIds[index]),
+        data: {
+          ...baseDocument,
+          [`_vector_${passage.field}`]: this.fieldValueInstance.vector(
+            vectors[fieldNames.length + index]
+          ),
+          [`${passage.field}_original`]: passage.text,
+          _field_weights: { [passage.field]: fieldConfig?.weight || 1.0 },
+          _lexical_tokens: fse_lexicalTokens(passage.text),
+          ...(this.isPhoneticEnabled()
+            ? {
+                [FSE_PHONETIC_FIELD]: this.phoneticKeys([
+                  [passage.field, passage.text],
+                ]),
+              }
+            : {}),
+          _chunk: passage,
+        },
       });
+    });
+
+    return documents;
+  }
+
+  private isPhoneticEnabled() {
+    return !!this.config.phonetic && this.config.phonetic.enabled !== false;
+  }
+
+  /**
+   * Phonetic keys of the texts of the fields selected by phonetic.fields
+   */
+  private phoneticKeys(texts: [fieldName: string, text: string][]): string[] {
+    const fields = this.config.phonetic?.fields?.map(fse_indexFieldName);
+    const algorithms = fse_phoneticAlgorithms(this.config);
+    return Array.from(
+      new Set(
+        texts
+          .filter(([fieldName]) => !fields || fields.includes(fieldName))
+          .flatMap(([, text]) => fse_phoneticKeys(text, algorithms))
+      )
+    );
+  }
+
+  /**
+   * Batch vectorization of the texts using the embedding provider
+   * All the texts are sent in a single embedBatch call
+   */
+  private async batchVectorize(texts: string[]): Promise<number[][]> {
+    try {
+      if (texts.length === 0) {
+        return [];
+      }
 
-      return result;
+      // Vectorisation en une seule fois (plus efficace)
+      return await this.embeddingProvider.embedBatch(texts, texts.length);
     } catch (error) {
       console.error("❌ Erreur lors de la vectorisation en batch:", error);
       throw error;
@@ -209,32 +541,169 @@ export class Indexes {
 
   /**
    * Delete index for a document
+   * The index document and its passages are removed in a transaction, the
+   * index document is replaced by a tombstone when the source version is
+   * known (sourceUpdateTime, sourceEventId) so older events are skipped.
+   * Nothing is written for a document that was never indexed.
    */
   async deleteIndex(): Promise<void> {
     const indexedDocumentPath = this.props.returnedFields.indexedDocumentPath;
 
     try {
-      // Supprimer le document d'index
-      const query = await this.firestoreInstance
-        .collection(this.config.collection)
-        .where("indexedDocumentPath", "==", indexedDocumentPath)
-        .get();
+      // Supprimer le document d'index et ses passages, sans requête
+      const indexRef = this.indexRef();
+      const deleted = await this.firestoreInstance.runTransaction(
+        async (transaction) => {
+          const previous = await transaction.get(indexRef);
+          if (
+            fse_isOutdatedIndex(previous.data(), this.props.sourceUpdateTime) ||
+            fse_isReplayedEvent(previous.data(), this.props.sourceEventId)
+          ) {
+            return false;
+          }
+          // Index écrit avant les ids déterministes : ancienne requête
+          const legacyRefs = previous.exists
+            ? []
+            : await this.legacyIndexRefs(transaction);
+          if (!previous.exists && legacyRefs.length === 0) return false;
+
+          this.removeIndex(transaction, indexRef, previous.data(), true);
+          for (const ref of legacyRefs) {
+            transaction.delete(ref);
+          }
+          return true;
+        }
+      );
 
-      if (query.empty) return;
+      if (deleted) {
+        console.log(
+          `🗑️ Index multi-champs supprimé de la collection "${this.config.collection}": ${indexedDocumentPath}`
+        );
+      }
+    } catch (error) {
+      console.error(
+        `❌ Erreur lors de la suppression de l'index multi-champs ${indexedDocumentPath}:`,
+        error
+      );
+      throw error;
+    }
+  }
 
-      const batch = this.firestoreInstance.batch();
-      query.docs.forEach((doc) => {
-        batch.delete(doc.ref);
-      });
+  /**
+   * Whether the version of the source document is known
+   */
+  private hasSourceVersion(): boolean {
+    return !!this.props.sourceUpdateTime || !!this.props.sourceEventId;
+  }
 
-      await batch.commit();
+  /**
+   * Removes the index document and its passages in a transaction, the index
+   * document becomes a tombstone when the document was indexed and the
+   * source version is known. The tombstone expires after tombstoneTtlSeconds.
+   * @param {boolean} indexed - Whether an index (possibly legacy) existed.
+   */
+  private removeIndex(
+    transaction: Transaction,
+    indexRef: DocumentReference,
+    previousIndex: DocumentData | undefined,
+    indexed: boolean
+  ): void {
+    for (const ref of this.staleChunkRefs(previousIndex, [])) {
+      transaction.delete(ref);
+    }
 
-      console.log(
-        `🗑️ Index multi-champs supprimé de la collection "${this.config.collection}": ${indexedDocumentPath}`
+    if (!indexed || !this.hasSourceVersion()) {
+      if (previousIndex) transaction.delete(indexRef);
+      return;
+    }
+    const ttlSeconds = this.config.tombstoneTtlSeconds ?? 30 * 24 * 3600;
+    transaction.set(indexRef, {
+      indexedDocumentPath: this.props.returnedFields.indexedDocumentPath,
+      [FSE_DELETED_FIELD]: true,
+      [FSE_EXPIRES_AT_FIELD]: new Date(Date.now() + ttlSeconds * 1000),
+      _indexed_at: this.fieldValueInstance.serverTimestamp(),
+      ...(this.props.sourceUpdateTime
+        ? { [FSE_SOURCE_UPDATE_TIME_FIELD]: this.props.sourceUpdateTime }
+        : {}),
+      ...(this.props.sourceEventId
+        ? { [FSE_LAST_EVENT_ID_FIELD]: this.props.sourceEventId }
+        : {}),
+    });
+  }
+
+  /**
+   * Update index for a document (re-index all fields)
+   * The vectors are computed first, the index document and its passages are
+   * then replaced in a single transaction, or deleted when no field is left
+   * to index. An index written from a more recent source, or by the same
+   * event, is left untouched.
+   * @return {Promise<boolean>} - false when the update was skipped as outdated or replayed.
+   */
+  async updateIndex(): Promise<boolean> {
+    const indexedDocumentPath = this.props.returnedFields.indexedDocumentPath;
+
+    try {
+      // Vectorisation hors transaction : elle ne fait que lire puis écrire
+      const prepared = this.prepareTexts();
+      const texts = Indexes.textsOf(prepared);
+      const documents =
+        texts.length === 0
+          ? []
+          : this.buildIndexDocuments(
+              prepared,
+              await this.batchVectorize(texts)
+            );
+      const indexRef = this.indexRef();
+
+      const updated = await this.firestoreInstance.runTransaction(
+        async (transaction) => {
+          const previous = await transaction.get(indexRef);
+          if (
+            fse_isOutdatedIndex(previous.data(), this.props.sourceUpdateTime) ||
+            fse_isReplayedEvent(previous.data(), this.props.sourceEventId)
+          ) {
+            return false;
+          }
+          // Lectures avant les écritures dans une transaction
+          const legacyRefs = previous.exists
+            ? []
+            : await this.legacyIndexRefs(transaction);
+
+          if (documents.length === 0) {
+            this.removeIndex(
+              transaction,
+              indexRef,
+              previous.data(),
+              previous.exists || legacyRefs.length > 0
+            );
+          } else {
+            for (const { ref, data } of documents) {
+              transaction.set(ref, data);
+            }
+            for (const ref of this.staleChunkRefs(previous.data(), documents)) {
+              transaction.delete(ref);
+            }
+          }
+          for (const ref of legacyRefs) {
+            transaction.delete(ref);
+          }
+          return true;
+        }
       );
+
+      if (!updated) {
+        console.warn(
+          `⚠️ Événement obsolète ou déjà traité pour ${indexedDocumentPath}, mise à jour ignorée`
+        );
+      } else {
+        console.log(
+          `✅ Multi-index mis à jour dans collection "${this.config.collection}": ${indexedDocumentPath}`
+        );
+      }
+      return updated;
     } catch (error) {
       console.error(
-        `❌ Erreur lors de la suppression de l'index multi-champs ${indexedDocumentPath}:`,
+        `❌ Erreur lors de la mise à jour de l'index multi-champs ${indexedDocumentPath}:`,
         error
       );
       throw error;
@@ -242,13 +711,80 @@ export class Indexes {
   }
 
   /**
-   * Update index for a document (re-index all fields)
+   * Patch the returned fields of the index document and of its passages,
+   * without re-embedding: returnedFields are written, the keys of
+   * previousReturnedFields missing from them are deleted and the tenant id
+   * is derived again. Missing passages are left out.
+   * @param {Record<string, any>} previousReturnedFields - The returned fields before the update.
+   * @return {Promise<boolean>} - false when there is no index, or the event is outdated or replayed.
    */
-  async updateIndex(): Promise<void> {
-    // Supprimer l'ancien index d'abord
-    await this.deleteIndex();
-    // Puis recréer
-    await this.indexes();
+  async patchReturnedFields(
+    previousReturnedFields: Record<string, any>
+  ): Promise<boolean> {
+    const indexedDocumentPath = this.props.returnedFields.indexedDocumentPath;
+    const patch: Record<string, any> = { ...this.props.returnedFields };
+    for (const key of Object.keys(previousReturnedFields)) {
+      if (!(key in patch)) patch[key] = this.fieldValueInstance.delete();
+    }
+    // Le tenant peut venir d'un champ retourné : il est recalculé
+    if (this.config.tenant) {
+      patch[FSE_TENANT_FIELD] = fse_getIndexTenantId(
+        this.config.tenant,
+        this.props.returnedFields
+      );
+    }
+
+    try {
+      const indexRef = this.indexRef();
+      const patched = await this.firestoreInstance.runTransaction(
+        async (transaction) => {
+          const previous = await transaction.get(indexRef);
+          const previousIndex = previous.data();
+          if (
+            !previousIndex ||
+            fse_isTombstone(previousIndex) ||
+            fse_isOutdatedIndex(previousIndex, this.props.sourceUpdateTime) ||
+            fse_isReplayedEvent(previousIndex, this.props.sourceEventId)
+          ) {
+            return false;
+          }
+          // Lectures avant les écritures : un passage absent n'est pas mis à jour
+          const chunkRefs = this.staleChunkRefs(previousIndex, []);
+          const chunks =
+            chunkRefs.length === 0
+              ? []
+              : await transaction.getAll(...chunkRefs);
+
+          transaction.update(indexRef, {
+            ...patch,
+            ...(this.props.sourceUpdateTime
+              ? { [FSE_SOURCE_UPDATE_TIME_FIELD]: this.props.sourceUpdateTime }
+              : {}),
+            ...(this.props.sourceEventId
+              ? { [FSE_LAST_EVENT_ID_FIELD]: this.props.sourceEventId }
+              : {}),
+          });
+          // Les passages portent aussi les champs retournés
+          for (const chunk of chunks) {
+            if (chunk.exists) transaction.update(chunk.ref, patch);
+          }
+          return true;
+        }
+      );
+
+      if (patched) {
+        console.log(
+          `✅ Champs retournés mis à jour sans revectorisation: ${indexedDocumentPath}`
+        );
+      }
+      return patched;
+    } catch (error) {
+      console.error(
+        `❌ Erreur lors de la mise à jour des champs retournés de ${indexedDocumentPath}:`,
+        error
+      );
+      throw error;
+    }
   }
 
   /**
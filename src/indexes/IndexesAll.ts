@@ -1,9 +1,12 @@
-import type { BulkWriter, Firestore } from "@google-cloud/firestore";
+import type { DocumentReference, Firestore } from "@google-cloud/firestore";
 import type { firestore } from "firebase-admin";
 import type {
   FirestoreSearchEngineConfig,
   FirestoreSearchEngineIndexesAllProps,
+  FirestoreSearchEngineIndexesProps,
 } from "..";
+import { fse_buildReturnedFields } from "../shared/fieldPath";
+import { fse_withTenantSourceField } from "../shared/tenant";
 import { Indexes } from "./Indexes";
 
 /**
@@ -13,6 +16,7 @@ import { Indexes } from "./Indexes";
 export class IndexesAll {
   wordMinLength: number;
   wordMaxLength: number;
+  batchSize: number;
 
   constructor(
     private readonly firestoreInstance: Firestore,
@@ -21,52 +25,139 @@ export class IndexesAll {
   ) {
     this.wordMinLength = config.wordMinLength || 3;
     this.wordMaxLength = config.wordMaxLength || 100;
+    this.batchSize = config.embeddingBatchSize || 32;
   }
 
   /**
    * Multi-field bulk execution method
+   * Documents are processed by chunks of embeddingBatchSize, all the texts of
+   * a chunk are vectorized in a single embedBatch call
    */
   async executeMultiField({
     documentsToIndexes,
     fieldConfigs,
   }: {
-    documentsToIndexes: any[];
-    fieldConfigs: {
-      [fieldName: string]: { weight?: number; fuzzySearch?: boolean };
-    };
+    documentsToIndexes: Omit<
+      FirestoreSearchEngineIndexesProps,
+      "inputFields"
+    >[];
+    fieldConfigs: FirestoreSearchEngineIndexesProps["inputFields"];
   }) {
     const bulk = this.firestoreInstance.bulkWriter();
     let processedCount = 0;
+    let pendingCount = 0;
+
+    for (
+      let chunkStart = 0;
+      chunkStart < documentsToIndexes.length;
+      chunkStart += this.batchSize
+    ) {
+      const chunk = documentsToIndexes.slice(
+        chunkStart,
+        chunkStart + this.batchSize
+      );
 
-    for (const element of documentsToIndexes) {
-      // Clean old indexes first
-      await this.cleanOldIndexes(element.indexedDocumentPath, bulk);
-
-      // Create multi-field index for this document
-      const indexer = new Indexes(
-        this.firestoreInstance,
-        this.fieldValueInstance,
-        this.config,
-        {
-          inputFields: fieldConfigs,
-          returnedFields: element,
-        }
+      // Create multi-field indexers for this chunk
+      const indexers = chunk.map(
+        (element) =>
+          new Indexes(
+            this.firestoreInstance,
+            this.fieldValueInstance,
+            this.config,
+            { ...element, inputFields: fieldConfigs }
+          )
       );
+      const preparedTexts = indexers.map((indexer) => indexer.prepareTexts());
 
-      try {
-        await indexer.bulkIndexes(bulk);
-        processedCount++;
+      // Index précédents (ids déterministes) : passages obsolètes à supprimer
+      const previousIndexes = await this.firestoreInstance.getAll(
+        ...indexers.map((indexer) => indexer.indexRef())
+      );
+      // Documents sans index déterministe : anciens index à ids aléatoires,
+      // supprimés une fois le nouvel index écrit
+      const legacyRefs = await Promise.all(
+        indexers.map((indexer, index) =>
+          previousIndexes[index].exists ? [] : indexer.legacyIndexRefs()
+        )
+      );
+      const texts = preparedTexts.flatMap(Indexes.textsOf);
 
-        // Flush periodically
-        if (processedCount % 500 === 0) {
-          await bulk.flush();
-        }
+      let vectors: number[][];
+      try {
+        vectors = await indexers[0].embeddingProvider.embedBatch(
+          texts,
+          this.batchSize
+        );
       } catch (error) {
         console.error(
-          `❌ Erreur indexation document ${element.indexedDocumentPath}:`,
+          `❌ Erreur vectorisation des documents ${chunkStart} à ${
+            chunkStart + chunk.length - 1
+          }:`,
           error
         );
-        // Continue with other documents
+        // Continue with other chunks
+        continue;
+      }
+
+      // Redistribuer les vecteurs à chaque document
+      const legacyDeletes: Promise<DocumentReference[]>[] = [];
+      let vectorIndex = 0;
+      indexers.forEach((indexer, index) => {
+        const prepared = preparedTexts[index];
+        const count = Indexes.textsOf(prepared).length;
+        const documentVectors = vectors.slice(vectorIndex, vectorIndex + count);
+        vectorIndex += count;
+        const previousIndex = previousIndexes[index].data();
+        if (count === 0) {
+          // Plus rien à indexer : supprimer l'ancien index
+          if (previousIndex) indexer.bulkDeleteIndex(bulk, previousIndex);
+          legacyDeletes.push(Promise.resolve(legacyRefs[index]));
+          return;
+        }
+
+        try {
+          const written = indexer.bulkIndexesWithVectors(
+            bulk,
+            prepared,
+            documentVectors,
+            previousIndex
+          );
+          const indexedDocumentPath =
+            chunk[index].returnedFields.indexedDocumentPath;
+          legacyDeletes.push(
+            written.then(
+              () => legacyRefs[index],
+              (error) => {
+                console.error(
+                  `❌ Erreur écriture de l'index de ${indexedDocumentPath}, anciens index conservés:`,
+                  error
+                );
+                return [];
+              }
+            )
+          );
+          processedCount++;
+          pendingCount++;
+        } catch (error) {
+          console.error(
+            `❌ Erreur indexation document ${chunk[index].returnedFields.indexedDocumentPath}:`,
+            error
+          );
+          // Continue with other documents
+        }
+      });
+
+      if (legacyRefs.some((refs) => refs.length > 0)) {
+        await bulk.flush();
+        for (const ref of (await Promise.all(legacyDeletes)).flat()) {
+          bulk.delete(ref);
+        }
+      }
+
+      // Flush periodically
+      if (pendingCount >= 500) {
+        await bulk.flush();
+        pendingCount = 0;
       }
     }
 
@@ -92,25 +183,33 @@ export class IndexesAll {
 
     // Prepare documents with proper structure
     const preparedDocuments = documentsToIndexes.map((doc) => {
-      const returnedFields: any = {
-        indexedDocumentPath: doc.indexedDocumentPath,
-      };
-
-      // Add returned keys
-      for (const key of documentProps.returnedKey) {
-        if (doc[key] !== undefined) {
-          returnedFields[key] = doc[key];
-        }
-      }
+      // Clés retournées et projections, les champs indexés sont lus dans le
+      // document source (chemins et champs calculés)
+      const returnedFields = fse_buildReturnedFields(
+        doc.indexedDocumentPath,
+        documentProps.returnedKey,
+        doc
+      );
 
-      // Add indexed fields
-      for (const fieldName of Object.keys(fieldConfigs)) {
-        if (doc[fieldName] !== undefined) {
-          returnedFields[fieldName] = doc[fieldName];
+      // Valeurs brutes des champs indexés de premier niveau, lues dans les résultats
+      for (const [fieldPath, fieldConfig] of Object.entries(fieldConfigs)) {
+        if (
+          !fieldConfig.compute &&
+          doc[fieldPath] !== undefined &&
+          !(fieldPath in returnedFields)
+        ) {
+          returnedFields[fieldPath] = doc[fieldPath];
         }
       }
 
-      return returnedFields;
+      return {
+        returnedFields: fse_withTenantSourceField(
+          this.config.tenant,
+          returnedFields,
+          doc
+        ),
+        sourceData: doc,
+      };
     });
 
     return await this.executeMultiField({
@@ -118,23 +217,4 @@ export class IndexesAll {
       fieldConfigs,
     });
   }
-
-  /**
-   * Clean old indexes for a document
-   */
-  private async cleanOldIndexes(
-    indexedDocumentPath: string,
-    bulk: BulkWriter
-  ): Promise<void> {
-    const query = await this.firestoreInstance
-      .collection(this.config.collection)
-      .where("indexedDocumentPath", "==", indexedDocumentPath)
-      .get();
-
-    if (query.empty) return;
-
-    for (const doc of query.docs) {
-      bulk.delete(doc.ref);
-    }
-  }
 }
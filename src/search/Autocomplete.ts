@@ -0,0 +1,167 @@
+import type { Firestore } from "@google-cloud/firestore";
+import type {
+  FirestoreSearchEngineAutocompleteProps,
+  FirestoreSearchEngineConfig,
+  FirestoreSearchEngineSuggestion,
+} from "..";
+import {
+  FSE_EDGE_NGRAMS_FIELD,
+  fse_highlightPrefixes,
+} from "../shared/edgeNgrams";
+import { fse_indexFieldName } from "../shared/fieldPath";
+import { fse_isTombstone } from "../shared/indexVersion";
+import { fse_tokenize } from "../shared/lexical";
+import { fse_normalizeText } from "../shared/normalize";
+import {
+  fse_applySearchFilters,
+  fse_validateSearchFilters,
+  fse_withTenantFilter,
+} from "../shared/searchFilters";
+
+/**
+ * Prefix search on the edge n-grams written at index time
+ * The last word of the prefix is looked up with array-contains, the other
+ * words must start a word of the same field
+ */
+export class Autocomplete {
+  limit: number;
+  minPrefixLength: number;
+  maxPrefixLength: number;
+
+  constructor(
+    private readonly firestoreInstance: Firestore,
+    private readonly config: FirestoreSearchEngineConfig,
+    private readonly props: FirestoreSearchEngineAutocompleteProps
+  ) {
+    this.limit = props.limit ?? 10;
+    this.minPrefixLength = config.autocomplete?.minPrefixLength ?? 2;
+    this.maxPrefixLength = config.autocomplete?.maxPrefixLength ?? 15;
+  }
+
+  async execute(): Promise<FirestoreSearchEngineSuggestion[]> {
+    if (
+      !this.config.autocomplete ||
+      this.config.autocomplete.enabled === false
+    ) {
+      throw new Error(
+        "autocomplete requires the autocomplete option in the search engine configuration."
+      );
+    }
+    if (this.props.filters) {
+      fse_validateSearchFilters(this.props.filters, this.config.returnedKeys, [
+        "autocomplete",
+      ]);
+    }
+    if (this.config.tenant && !this.props.tenantId) {
+      throw new Error(
+        `tenantId is required to search in the multi-tenant collection "${this.config.collection}".`
+      );
+    }
+
+    // Même normalisation qu'à l'indexation
+    const queryWords = fse_tokenize(
+      fse_normalizeText(this.props.prefix, this.config.normalization)
+    );
+    const lastWord = queryWords[queryWords.length - 1];
+    if (!lastWord || lastWord.length < this.minPrefixLength) return [];
+
+    const querySnapshot = await fse_applySearchFilters(
+      this.firestoreInstance.collectionGroup(this.config.collection),
+      fse_withTenantFilter(
+        this.config.tenant,
+        this.props.filters,
+        this.props.tenantId
+      )
+    )
+      .where(
+        FSE_EDGE_NGRAMS_FIELD,
+        "array-contains",
+        lastWord.slice(0, this.maxPrefixLength)
+      )
+      .limit(this.limit * 3)
+      .get();
+
+    console.log("📊 Autocomplete results:", {
+      prefix: lastWord,
+      docsCount: querySnapshot.docs.length,
+    });
+
+    const highlight = {
+      pre: this.props.highlight?.pre ?? "<em>",
+      post: this.props.highlight?.post ?? "</em>",
+    };
+    const suggestions = new Map<string, FirestoreSearchEngineSuggestion>();
+
+    for (const doc of querySnapshot.docs) {
+      const data = doc.data();
+      if (fse_isTombstone(data)) continue;
+      const fields = (
+        this.props.fields ??
+        this.config.autocomplete.fields ??
+        Object.keys(data._field_weights ?? {})
+      ).map(fse_indexFieldName);
+
+      for (const field of fields) {
+        const value = data[`${field}_original`];
+        if (typeof value !== "string") continue;
+
+        const score = this.score(queryWords, value);
+        if (score === 0) continue;
+
+        const current = suggestions.get(data.indexedDocumentPath);
+        if (current && current._autocompleteScore >= score) continue;
+
+        suggestions.set(data.indexedDocumentPath, {
+          ...(data as { indexedDocumentPath: string }),
+          _suggestion: {
+            field,
+            value,
+            highlighted: fse_highlightPrefixes(
+              value,
+              queryWords,
+              highlight.pre,
+              highlight.post
+            ),
+          },
+          _autocompleteScore: score,
+        });
+      }
+    }
+
+    return Array.from(suggestions.values())
+      .sort(
+        (a, b) =>
+          b._autocompleteScore - a._autocompleteScore ||
+          a._suggestion.value.length - b._suggestion.value.length
+      )
+      .slice(0, this.limit);
+  }
+
+  /**
+   * Scores a field value for the typed words, 0 when a word matches nothing
+   * Values starting with the prefix and exact words come first
+   */
+  private score(queryWords: string[], value: string): number {
+    const words = fse_tokenize(value);
+    let score = 0;
+
+    for (const [index, queryWord] of queryWords.entries()) {
+      const isLast = index === queryWords.length - 1;
+      // Les mots déjà tapés peuvent être complets, le dernier est un préfixe
+      const position = words.findIndex((word) =>
+        isLast ? word.startsWith(queryWord) : word === queryWord
+      );
+      const prefixPosition =
+        position === -1
+          ? words.findIndex((word) => word.startsWith(queryWord))
+          : position;
+      if (prefixPosition === -1) return 0;
+
+      score += words[prefixPosition] === queryWord ? 1 : 0.5;
+      if (prefixPosition === index) score += 0.5;
+    }
+
+    if (value.startsWith(queryWords.join(" "))) score += 1;
+    return score / (queryWords.length + 1);
+  }
+}
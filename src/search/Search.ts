@@ -1,12 +1,43 @@
 import type { Firestore } from "@google-cloud/firestore";
 import {
+  EmbeddingProvider,
   FirestoreSearchEngineConfig,
+  FirestoreSearchEngineFilter,
   FirestoreSearchEngineIndexesProps,
   FirestoreSearchEngineReturnType,
+  FirestoreSearchEngineSearchPage,
   FirestoreSearchEngineSearchProps,
 } from "..";
+import { FSE_COMBINED_VECTOR_FIELD } from "../shared/combineVectors";
+import { fse_indexFieldName } from "../shared/fieldPath";
+import { fse_isTombstone } from "../shared/indexVersion";
+import {
+  FSE_MAX_ARRAY_CONTAINS_ANY,
+  fse_lexicalTokens,
+  fse_tokenize,
+} from "../shared/lexical";
+import { fse_normalizeText } from "../shared/normalize";
+import {
+  FSE_MAX_FIND_NEAREST_LIMIT,
+  fse_decodePageToken,
+  fse_encodePageToken,
+  fse_searchFingerprint,
+} from "../shared/pageToken";
+import {
+  FSE_PHONETIC_FIELD,
+  fse_phoneticAlgorithms,
+  fse_phoneticKeys,
+} from "../shared/phonetic";
+import type { QueryEmbeddingCache } from "../shared/queryEmbeddingCache";
 import { fse_rankResults } from "../shared/rankResults";
-import { fse_vectorizeText } from "../shared/vectorize";
+import { fse_reciprocalRankFusion } from "../shared/reciprocalRankFusion";
+import {
+  fse_applySearchFilters,
+  fse_validateSearchFilters,
+  fse_withTenantFilter,
+} from "../shared/searchFilters";
+import type { SynonymDictionary } from "../shared/synonyms";
+import { fse_getEmbeddingProvider } from "../shared/vectorize";
 /**
  * A Search class that interacts with Google Cloud Firestore API for operations like read, write and update
  * Uses FirestoreSearchEngineConfig, FirestoreSearchEngineIndexesProps, FirestoreSearchEngineSearchProps for various configuration
@@ -23,10 +54,24 @@ export class Search {
   wordMinLength: number;
   wordMaxLength: number;
   distanceThreshold: number;
+  embeddingProvider: EmbeddingProvider;
+  mode: "vector" | "hybrid";
+  /**
+   * Indexed field searched in (searchField or the internal fieldFilter),
+   * as named in index documents (address.city → address__city)
+   */
+  targetField?: string;
+  /**
+   * Number of ranked results fetched: results of the previous pages, of the
+   * current page and one more to know if a next page exists
+   */
+  fetchLimit: number;
   constructor(
     private readonly firestoreInstance: Firestore,
     private readonly config: FirestoreSearchEngineConfig,
-    private readonly props: FirestoreSearchEngineSearchProps
+    private readonly props: FirestoreSearchEngineSearchProps,
+    private readonly queryCache?: QueryEmbeddingCache,
+    private readonly synonyms?: SynonymDictionary
   ) {
     if (!this.props.limit) {
       this.props.limit = 10;
@@ -41,6 +86,14 @@ export class Search {
     } else {
       this.wordMinLength = this.config.wordMinLength;
     }
+    this.embeddingProvider = fse_getEmbeddingProvider(
+      this.config,
+      this.wordMaxLength
+    );
+    this.mode = this.props.mode ?? this.config.searchMode ?? "vector";
+    this.fetchLimit = this.props.limit;
+    const targetPath = this.props.searchField ?? this.props.fieldFilter;
+    this.targetField = targetPath ? fse_indexFieldName(targetPath) : undefined;
     // Debug: log the values being checked
     console.log("🔍 DistanceThreshold Debug:", {
       "props.distanceThreshold": this.props.distanceThreshold,
@@ -84,26 +137,131 @@ export class Search {
     }
   }
   async execute() {
-    return await this.search(this.props.fieldValue);
+    return (await this.executePage()).results;
+  }
+
+  /**
+   * Executes the search and returns the page selected by props.pageToken
+   * with the token of the next page
+   */
+  async executePage(): Promise<FirestoreSearchEngineSearchPage> {
+    const limit = this.props.limit as number;
+    const fingerprint = fse_searchFingerprint({
+      fieldValue: this.props.fieldValue,
+      targetField: this.targetField,
+      vectorFieldName: this.props.vectorFieldName,
+      filters: this.props.filters,
+      tenantId: this.props.tenantId,
+      mode: this.mode,
+    });
+    const offset = fse_decodePageToken(this.props.pageToken, fingerprint);
+    this.fetchLimit = Math.min(offset + limit + 1, FSE_MAX_FIND_NEAREST_LIMIT);
+
+    const ranked = await this.run();
+    const hasNextPage =
+      ranked.length > offset + limit &&
+      offset + limit < FSE_MAX_FIND_NEAREST_LIMIT;
+
+    return {
+      results: ranked.slice(offset, offset + limit),
+      nextPageToken: hasNextPage
+        ? fse_encodePageToken(offset + limit, fingerprint)
+        : undefined,
+    };
+  }
+
+  /**
+   * Validates the filters and the tenant of the search request
+   * @throws {Error} If a filter is invalid or the tenantId of a multi-tenant collection is missing.
+   */
+  validate() {
+    if (this.props.filters) {
+      fse_validateSearchFilters(
+        this.props.filters,
+        this.config.returnedKeys,
+        this.arrayQueryModes()
+      );
+    }
+    if (this.config.tenant && !this.props.tenantId) {
+      throw new Error(
+        `tenantId is required to search in the multi-tenant collection "${this.config.collection}".`
+      );
+    }
   }
+
+  private async run() {
+    this.validate();
+    // Même chaîne de normalisation qu'à l'indexation
+    const query = fse_normalizeText(
+      this.props.fieldValue,
+      this.config.normalization
+    );
+    const expansions = this.synonyms
+      ? await this.synonyms.expand(query)
+      : [query];
+    if (expansions.length === 1) return await this.search(query);
+
+    // Une recherche par expansion, fusionnées avec RRF
+    const lists = await Promise.all(
+      expansions.map((expansion) => this.search(expansion))
+    );
+    return this.fuseExpansionResults(expansions, lists);
+  }
+
+  /**
+   * Enabled modes whose candidate query has its own array-contains clause
+   */
+  private arrayQueryModes(): string[] {
+    const modes: string[] = [];
+    if (this.mode === "hybrid") modes.push("hybrid search");
+    if (this.config.phonetic && this.config.phonetic.enabled !== false) {
+      modes.push("phonetic search");
+    }
+    return modes;
+  }
+
   protected async search(
     fieldValue: string
   ): Promise<FirestoreSearchEngineReturnType> {
-    const queryVector = await fse_vectorizeText(fieldValue, this.wordMaxLength);
+    let results = await this.vectorSearch(fieldValue);
+
+    if (this.mode === "hybrid") {
+      const lexicalResults = await this.lexicalSearch(fieldValue);
+      results = this.fuseHybridResults(results, lexicalResults);
+    }
+
+    if (this.config.phonetic && this.config.phonetic.enabled !== false) {
+      const phoneticResults = await this.phoneticSearch(fieldValue);
+      results = this.fusePhoneticResults(fieldValue, results, phoneticResults);
+    }
+
+    return results;
+  }
+
+  /**
+   * Nearest neighbours search on the query vector (COSINE distance)
+   */
+  private async vectorSearch(
+    fieldValue: string
+  ): Promise<FirestoreSearchEngineReturnType> {
+    const queryVector = this.queryCache
+      ? await this.queryCache.getOrEmbed(fieldValue, this.embeddingProvider)
+      : await this.embeddingProvider.embed(fieldValue);
 
     // Pour la recherche multi-champs, utiliser le nom du champ vectoriel spécifique
-    const vectorFieldName = this.props.fieldFilter
-      ? `_vector_${this.props.fieldFilter}`
-      : this.props.vectorFieldName || "vectors";
+    const vectorFieldName = this.targetField
+      ? `_vector_${this.targetField}`
+      : this.props.vectorFieldName ||
+        (this.config.combinedVector ? FSE_COMBINED_VECTOR_FIELD : "vectors");
 
     console.log("🔍 Configuration de la recherche:", {
       vectorField: vectorFieldName,
       queryVectorLength: queryVector.length,
       queryVectorPreview: queryVector.slice(0, 5),
-      limit: this.props.limit as number,
+      limit: this.fetchLimit,
       distanceMeasure: "COSINE",
       distanceThreshold: this.distanceThreshold,
-      fieldFilter: this.props.fieldFilter,
+      targetField: this.targetField,
     });
 
     // Test: check documents in collection first
@@ -116,20 +274,20 @@ export class Search {
     allDocs.docs.forEach((doc, i) => {
       const data = doc.data();
       console.log(
-        `📄 Doc ${i}: fieldFilter=${
-          this.props.fieldFilter
-        }, hasVectorField=${!!data[vectorFieldName]}, vectorLength=${
-          data[vectorFieldName] ? "VectorValue" : "N/A"
-        }`
+        `📄 Doc ${i}: targetField=${this.targetField}, hasVectorField=${!!data[
+          vectorFieldName
+        ]}, vectorLength=${data[vectorFieldName] ? "VectorValue" : "N/A"}`
       );
     });
 
-    const querySnapshot = await this.firestoreInstance
-      .collectionGroup(this.config.collection)
+    const querySnapshot = await fse_applySearchFilters(
+      this.firestoreInstance.collectionGroup(this.config.collection),
+      this.queryFilters()
+    )
       .findNearest({
         vectorField: vectorFieldName,
         queryVector: queryVector,
-        limit: this.props.limit as number,
+        limit: this.fetchLimit,
         distanceMeasure: "COSINE",
         distanceThreshold: this.distanceThreshold,
         distanceResultField: "distance",
@@ -146,6 +304,8 @@ export class Search {
       return [];
     }
 
+    this.checkEmbeddingModel(querySnapshot.docs.map((doc) => doc.data()));
+
     const uniqueDocs = new Set<string>();
     const results: any[] = [];
 
@@ -155,9 +315,11 @@ export class Search {
           [key: string]: any;
           distance?: number;
         };
+      // Les pierres tombales des documents supprimés ne sont jamais retournées
+      if (fse_isTombstone(data)) continue;
 
       console.log(
-        `📄 Found doc: fieldFilter=${this.props.fieldFilter}, distance=${data.distance}`
+        `📄 Found doc: targetField=${this.targetField}, distance=${data.distance}`
       );
 
       const uniqueId = data.indexedDocumentPath;
@@ -168,13 +330,13 @@ export class Search {
         const relevanceScore = data.distance ? 1 - data.distance : 1.0;
 
         // Pour les recherches multi-champs, ajouter le texte original du champ spécifique
-        if (this.props.fieldFilter) {
-          const originalFieldKey = `${this.props.fieldFilter}_original`;
+        if (this.targetField) {
+          const originalFieldKey = `${this.targetField}_original`;
           data.fieldValue = data[originalFieldKey] || "";
         }
 
         results.push({
-          ...data,
+          ...this.withPassage(data),
           _relevanceScore: relevanceScore,
         });
 
@@ -182,17 +344,314 @@ export class Search {
       }
     }
 
-    // Rank results considering fuzzy search if enabled
-    let ranked = results;
-    if (this.props.fuzzySearch !== false) {
-      ranked = fse_rankResults(results, fieldValue);
-    } else {
-      ranked = results.sort(
-        (a, b) => (b._relevanceScore || 0) - (a._relevanceScore || 0)
-      );
-    }
+    // Classement par le modèle de score, sans distance d'édition si fuzzySearch est désactivé
+    const ranked = fse_rankResults(results, fieldValue, {
+      weights: {
+        ...this.config.scoring?.weights,
+        ...(this.props.fuzzySearch === false ? { editDistance: 0 } : {}),
+      },
+      debug: this.config.debug,
+      field: this.targetField,
+    });
 
     console.log(`🏆 Final results: ${ranked.length} documents`);
     return ranked;
   }
+
+  /**
+   * Lexical search on the _lexical_tokens array (words and trigrams)
+   * Candidates are ranked by the share of query tokens they contain
+   */
+  private async lexicalSearch(
+    fieldValue: string
+  ): Promise<FirestoreSearchEngineReturnType> {
+    const queryTokens = fse_lexicalTokens(fieldValue).slice(
+      0,
+      FSE_MAX_ARRAY_CONTAINS_ANY
+    );
+    if (queryTokens.length === 0) return [];
+
+    const querySnapshot = await fse_applySearchFilters(
+      this.firestoreInstance.collectionGroup(this.config.collection),
+      this.queryFilters()
+    )
+      .where("_lexical_tokens", "array-contains-any", queryTokens)
+      .limit(this.fetchLimit * 3)
+      .get();
+
+    console.log("📊 Lexical results:", {
+      queryTokens: queryTokens.length,
+      docsCount: querySnapshot.docs.length,
+    });
+
+    // Les mots exacts comptent plus que les trigrammes
+    const queryWords = new Set(fse_tokenize(fieldValue));
+    const bestByDocument = new Map<string, any>();
+
+    for (const doc of querySnapshot.docs) {
+      const data = doc.data();
+      if (fse_isTombstone(data)) continue;
+
+      const documentTokens = new Set<string>(data._lexical_tokens || []);
+      let matched = 0;
+      let total = 0;
+      for (const token of queryTokens) {
+        const tokenWeight = queryWords.has(token) ? 3 : 1;
+        total += tokenWeight;
+        if (documentTokens.has(token)) matched += tokenWeight;
+      }
+
+      if (this.targetField) {
+        data.fieldValue = data[`${this.targetField}_original`] || "";
+      }
+      // Garder le meilleur passage de chaque document
+      const lexicalScore = matched / total;
+      const best = bestByDocument.get(data.indexedDocumentPath);
+      if (!best || lexicalScore > best._lexicalScore) {
+        bestByDocument.set(data.indexedDocumentPath, {
+          ...this.withPassage(data),
+          _lexicalScore: lexicalScore,
+        });
+      }
+    }
+
+    return Array.from(bestByDocument.values()).sort(
+      (a, b) => b._lexicalScore - a._lexicalScore
+    );
+  }
+
+  /**
+   * Phonetic candidates: documents sharing phonetic keys with the query
+   * Candidates are ranked by the share of query keys they contain
+   */
+  private async phoneticSearch(
+    fieldValue: string
+  ): Promise<FirestoreSearchEngineReturnType> {
+    const queryKeys = fse_phoneticKeys(
+      fieldValue,
+      fse_phoneticAlgorithms(this.config)
+    ).slice(0, FSE_MAX_ARRAY_CONTAINS_ANY);
+    if (queryKeys.length === 0) return [];
+
+    const querySnapshot = await fse_applySearchFilters(
+      this.firestoreInstance.collectionGroup(this.config.collection),
+      this.queryFilters()
+    )
+      .where(FSE_PHONETIC_FIELD, "array-contains-any", queryKeys)
+      .limit(this.fetchLimit * 3)
+      .get();
+
+    console.log("📊 Phonetic results:", {
+      queryKeys: queryKeys.length,
+      docsCount: querySnapshot.docs.length,
+    });
+
+    const bestByDocument = new Map<string, any>();
+
+    for (const doc of querySnapshot.docs) {
+      const data = doc.data();
+      if (fse_isTombstone(data)) continue;
+      const phoneticScore = this.phoneticScore(queryKeys, data);
+      const best = bestByDocument.get(data.indexedDocumentPath);
+      if (!best || phoneticScore > best._phoneticScore) {
+        if (this.targetField) {
+          data.fieldValue = data[`${this.targetField}_original`] || "";
+        }
+        bestByDocument.set(data.indexedDocumentPath, {
+          ...this.withPassage(data),
+          _phoneticScore: phoneticScore,
+        });
+      }
+    }
+
+    return Array.from(bestByDocument.values()).sort(
+      (a, b) => b._phoneticScore - a._phoneticScore
+    );
+  }
+
+  /**
+   * Share of the query phonetic keys found on an index document
+   */
+  private phoneticScore(queryKeys: string[], data: { [key: string]: any }) {
+    const documentKeys = new Set<string>(data[FSE_PHONETIC_FIELD] || []);
+    const matched = queryKeys.filter((key) => documentKeys.has(key)).length;
+    return matched / queryKeys.length;
+  }
+
+  /**
+   * Adds the phonetic candidates and the phonetic ranking signal with
+   * Reciprocal Rank Fusion: the results already found are ranked a second
+   * time by their phonetic score
+   */
+  private fusePhoneticResults(
+    fieldValue: string,
+    results: FirestoreSearchEngineReturnType,
+    phoneticResults: FirestoreSearchEngineReturnType
+  ): FirestoreSearchEngineReturnType {
+    const queryKeys = fse_phoneticKeys(
+      fieldValue,
+      fse_phoneticAlgorithms(this.config)
+    );
+    if (queryKeys.length === 0) return results;
+
+    const candidates = new Map<string, any>(
+      phoneticResults.map((result) => [result.indexedDocumentPath, result])
+    );
+    for (const result of results) {
+      const phoneticScore = this.phoneticScore(queryKeys, result);
+      if (phoneticScore > 0 && !candidates.has(result.indexedDocumentPath)) {
+        candidates.set(result.indexedDocumentPath, {
+          ...result,
+          _phoneticScore: phoneticScore,
+        });
+      }
+    }
+    const phoneticRanking = Array.from(candidates.values()).sort(
+      (a, b) => b._phoneticScore - a._phoneticScore
+    );
+
+    const fused = fse_reciprocalRankFusion(
+      [results, phoneticRanking],
+      (result) => result.indexedDocumentPath
+    );
+
+    return fused
+      .slice(0, this.fetchLimit)
+      .map(({ score, items: [result, phoneticResult] }) => ({
+        ...phoneticResult,
+        ...result,
+        _phoneticScore: phoneticResult?._phoneticScore ?? 0,
+        _phoneticFusionScore: score,
+        _matchSources: [
+          ...(result ? result._matchSources ?? ["vector"] : []),
+          ...(phoneticResult ? ["phonetic"] : []),
+        ],
+      })) as FirestoreSearchEngineReturnType;
+  }
+
+  /**
+   * Exposes the matched passage of a chunk document as _passage
+   */
+  private withPassage(data: { [key: string]: any }) {
+    if (!data._chunk) return data;
+    const { _chunk, ...rest } = data;
+    return {
+      ...rest,
+      _passage: {
+        field: _chunk.field,
+        text: _chunk.text,
+        offset: _chunk.offset,
+        index: _chunk.index,
+        ...(_chunk.element !== undefined ? { element: _chunk.element } : {}),
+      },
+    };
+  }
+
+  /**
+   * Fuses vector and lexical rankings with Reciprocal Rank Fusion
+   */
+  private fuseHybridResults(
+    vectorResults: FirestoreSearchEngineReturnType,
+    lexicalResults: FirestoreSearchEngineReturnType
+  ): FirestoreSearchEngineReturnType {
+    const fused = fse_reciprocalRankFusion(
+      [vectorResults, lexicalResults],
+      (result) => result.indexedDocumentPath
+    );
+
+    const results = fused
+      .slice(0, this.fetchLimit)
+      .map(({ score, items: [vectorResult, lexicalResult] }) => ({
+        ...lexicalResult,
+        ...vectorResult,
+        _lexicalScore: lexicalResult?._lexicalScore ?? 0,
+        _hybridScore: score,
+        _matchSources: [
+          ...(vectorResult ? ["vector"] : []),
+          ...(lexicalResult ? ["lexical"] : []),
+        ],
+      })) as FirestoreSearchEngineReturnType;
+
+    console.log(`🏆 Hybrid results: ${results.length} documents`);
+    return results;
+  }
+
+  /**
+   * Fuses the rankings of the query expansions with Reciprocal Rank Fusion
+   * Each result tells which expansion ranked it best (_matchedExpansion)
+   */
+  private fuseExpansionResults(
+    expansions: string[],
+    lists: FirestoreSearchEngineReturnType[]
+  ): FirestoreSearchEngineReturnType {
+    const fused = fse_reciprocalRankFusion(
+      lists,
+      (result) => result.indexedDocumentPath
+    );
+
+    const results = fused.slice(0, this.fetchLimit).map(({ score, items }) => {
+      // L'expansion où le document est le mieux classé
+      const ranks = items.map((item, index) =>
+        item === undefined ? Infinity : lists[index].indexOf(item)
+      );
+      const best = ranks.indexOf(Math.min(...ranks));
+      return {
+        ...items[best],
+        _expansionScore: score,
+        _matchedExpansion: expansions[best],
+        _matchedExpansions: expansions.filter(
+          (_, index) => items[index] !== undefined
+        ),
+      };
+    }) as FirestoreSearchEngineReturnType;
+
+    console.log(
+      `🏆 Expansion results: ${results.length} documents (${expansions.length} expansions)`
+    );
+    return results;
+  }
+
+  /**
+   * Where clauses of the search: user filters and tenant isolation
+   */
+  private queryFilters(): FirestoreSearchEngineFilter[] {
+    return fse_withTenantFilter(
+      this.config.tenant,
+      this.props.filters,
+      this.props.tenantId
+    );
+  }
+
+  /**
+   * Compares the model stamped on index documents with the current provider
+   * Legacy documents without _embedding_model are not checked
+   */
+  private checkEmbeddingModel(documents: { [key: string]: any }[]) {
+    const { modelId, dimension } = this.embeddingProvider;
+    const mismatches = documents.filter(
+      (data) =>
+        data._embedding_model !== undefined &&
+        (data._embedding_model !== modelId ||
+          (data._embedding_dimension !== undefined &&
+            data._embedding_dimension !== dimension))
+    );
+    if (mismatches.length === 0) return;
+
+    const indexedModels = Array.from(
+      new Set(
+        mismatches.map(
+          (data) => `${data._embedding_model} (${data._embedding_dimension})`
+        )
+      )
+    ).join(", ");
+    const message =
+      `Index collection "${this.config.collection}" contains vectors from ` +
+      `${indexedModels} but the query uses ${modelId} (${dimension}). ` +
+      `Re-index the collection after changing the embedding model.`;
+
+    if (this.config.modelMismatch === "error") {
+      throw new Error(message);
+    }
+    console.warn(`⚠️ ${message}`);
+  }
 }
@@ -0,0 +1,60 @@
+/**
+ * Splits a long text into overlapping passages.
+ *
+ * Passages are cut on whitespace when possible so words are not split, and
+ * each passage starts `overlap` characters before the end of the previous one.
+ *
+ * @param {string} text - The text to split.
+ * @param {number} chunkSize - Maximum length of a passage in characters.
+ * @param {number} overlap - Number of characters shared by two consecutive passages.
+ * @param {number} maxChunks - Maximum number of passages.
+ * @return {{ text: string; offset: number }[]} - The passages and their offset in the text.
+ */
+export function fse_splitIntoPassages(
+  text: string,
+  chunkSize: number,
+  overlap: number,
+  maxChunks: number
+): { text: string; offset: number }[] {
+  if (chunkSize <= 0) throw new Error("chunkSize must be greater than 0.");
+  if (overlap < 0 || overlap >= chunkSize) {
+    throw new Error("overlap must be between 0 and chunkSize.");
+  }
+
+  const passages: { text: string; offset: number }[] = [];
+  let start = 0;
+
+  while (start < text.length && passages.length < maxChunks) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      // Couper sur le dernier espace de la seconde moitié du passage
+      const lastSpace = text.lastIndexOf(" ", end);
+      if (lastSpace > start + chunkSize / 2) end = lastSpace;
+    }
+
+    const slice = text.slice(start, end);
+    const passage = slice.trim();
+    if (passage.length > 0) {
+      passages.push({
+        text: passage,
+        offset: start + slice.length - slice.trimStart().length,
+      });
+    }
+    if (end >= text.length) break;
+
+    // Reprendre avant la fin du passage, au début d'un mot
+    let next = Math.max(end - overlap, start + 1);
+    const nextSpace = text.indexOf(" ", next);
+    if (
+      next > 0 &&
+      text[next - 1] !== " " &&
+      nextSpace !== -1 &&
+      nextSpace < end
+    ) {
+      next = nextSpace + 1;
+    }
+    start = next;
+  }
+
+  return passages;
+}
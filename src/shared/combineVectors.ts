@@ -0,0 +1,48 @@
+/**
+ * Name of the index document field holding the combined vector.
+ */
+export const FSE_COMBINED_VECTOR_FIELD = "_combined_vector";
+
+/**
+ * Scales a vector to a unit length (COSINE distance only uses the direction).
+ * @param {number[]} vector - The vector to normalize.
+ * @return {number[]} - The unit vector, or the input if its norm is 0.
+ */
+export function fse_normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * Combines the vectors of several fields into their weighted mean.
+ * Each vector is normalized first so long fields do not dominate.
+ * @param {{ vector: number[]; weight: number }[]} weightedVectors - The field vectors and weights.
+ * @return {number[]} - The normalized weighted mean, empty without vectors.
+ */
+export function fse_combineVectors(
+  weightedVectors: { vector: number[]; weight: number }[]
+): number[] {
+  const usable = weightedVectors.filter(
+    ({ vector, weight }) => vector.length > 0 && weight > 0
+  );
+  if (usable.length === 0) return [];
+
+  const dimension = usable[0].vector.length;
+  const combined = new Array<number>(dimension).fill(0);
+  let totalWeight = 0;
+
+  for (const { vector, weight } of usable) {
+    if (vector.length !== dimension) {
+      throw new Error(
+        `Cannot combine vectors of dimensions ${dimension} and ${vector.length}.`
+      );
+    }
+    const unitVector = fse_normalizeVector(vector);
+    for (let i = 0; i < dimension; i++) {
+      combined[i] += unitVector[i] * weight;
+    }
+    totalWeight += weight;
+  }
+
+  return fse_normalizeVector(combined.map((value) => value / totalWeight));
+}
@@ -0,0 +1,61 @@
+import { fse_tokenize } from "./lexical";
+
+/**
+ * Index document field holding the edge n-grams of the autocomplete fields.
+ */
+export const FSE_EDGE_NGRAMS_FIELD = "_edge_ngrams";
+
+/**
+ * Edge n-grams (prefixes) of the words of a text:
+ * "rue martin" → ["ru", "rue", "ma", "mar", "mart", "marti", "martin"].
+ *
+ * @param {string} text - The normalized text.
+ * @param {number} minLength - Length of the shortest prefix.
+ * @param {number} maxLength - Length of the longest prefix.
+ * @return {string[]} - The unique prefixes of the words of the text.
+ */
+export function fse_edgeNgrams(
+  text: string,
+  minLength: number,
+  maxLength: number
+): string[] {
+  const ngrams = new Set<string>();
+
+  for (const word of fse_tokenize(text)) {
+    const longest = Math.min(word.length, maxLength);
+    for (let length = minLength; length <= longest; length++) {
+      ngrams.add(word.slice(0, length));
+    }
+  }
+
+  return Array.from(ngrams);
+}
+
+/**
+ * Wraps the part of each word of a text starting with one of the prefixes.
+ *
+ * @param {string} text - The text to highlight.
+ * @param {string[]} prefixes - The typed prefixes.
+ * @param {string} pre - Inserted before a highlighted prefix.
+ * @param {string} post - Inserted after a highlighted prefix.
+ * @return {string} - The highlighted text.
+ */
+export function fse_highlightPrefixes(
+  text: string,
+  prefixes: string[],
+  pre: string,
+  post: string
+): string {
+  // Le préfixe le plus long d'abord ("mars" avant "mar")
+  const sorted = [...prefixes].sort((a, b) => b.length - a.length);
+
+  return text.replace(/[\p{L}\p{N}]+/gu, (word) => {
+    const prefix = sorted.find((candidate) =>
+      word.toLowerCase().startsWith(candidate)
+    );
+    if (!prefix) return word;
+    return `${pre}${word.slice(0, prefix.length)}${post}${word.slice(
+      prefix.length
+    )}`;
+  });
+}
@@ -0,0 +1,145 @@
+import type {
+  FirestoreSearchEngineFieldConfig,
+  FirestoreSearchEngineReturnedKey,
+} from "..";
+
+/**
+ * Resolves the values of a field path in a document.
+ *
+ * Paths use dots for nested maps (`address.city`) and `[]` for arrays
+ * (`tags[]`, `items[].name`): every element of the array is resolved.
+ *
+ * @param {Record<string, any>} data - The document data.
+ * @param {string} path - The field path.
+ * @return {unknown[]} - The values found at the path, in document order.
+ */
+export function fse_resolveFieldValues(
+  data: Record<string, any>,
+  path: string
+): unknown[] {
+  let values: unknown[] = [data];
+
+  for (const segment of path.split(".")) {
+    const isArray = segment.endsWith("[]");
+    const key = isArray ? segment.slice(0, -2) : segment;
+
+    values = values
+      .map((value) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined
+      )
+      .filter((value) => value !== undefined && value !== null);
+
+    if (isArray) {
+      values = values.flatMap((value) => (Array.isArray(value) ? value : []));
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Resolves the string values of a field path in a document.
+ *
+ * @param {Record<string, any>} data - The document data.
+ * @param {string} path - The field path.
+ * @return {string[]} - The string values found at the path.
+ */
+export function fse_resolveFieldTexts(
+  data: Record<string, any>,
+  path: string
+): string[] {
+  return fse_resolveFieldValues(data, path).filter(
+    (value): value is string => typeof value === "string"
+  );
+}
+
+/**
+ * Whether a field path goes through an array (`tags[]`).
+ */
+export function fse_isArrayFieldPath(path: string): boolean {
+  return path.includes("[]");
+}
+
+/**
+ * Name of an indexed field path in index documents.
+ * Dots would be read as nested fields by Firestore, they become `__`:
+ * `address.city` → `address__city`, `tags[]` → `tags`.
+ *
+ * @param {string} path - The field path.
+ * @return {string} - The field name used in _vector_[fieldName] and [fieldName]_original.
+ */
+export function fse_indexFieldName(path: string): string {
+  return path.replace(/\[\]/g, "").replace(/\./g, "__");
+}
+
+/**
+ * Resolves the texts of an indexed field: the output of its compute function,
+ * or the string values of its path.
+ *
+ * @param {Record<string, any>} data - The source document data.
+ * @param {string} fieldPath - The field path or computed field name.
+ * @param {FirestoreSearchEngineFieldConfig} fieldConfig - The field configuration (optional).
+ * @return {string[]} - The texts to index.
+ */
+export function fse_resolveIndexedTexts(
+  data: Record<string, any>,
+  fieldPath: string,
+  fieldConfig?: FirestoreSearchEngineFieldConfig
+): string[] {
+  if (!fieldConfig?.compute) return fse_resolveFieldTexts(data, fieldPath);
+
+  try {
+    const computed = fieldConfig.compute(data);
+    return (Array.isArray(computed) ? computed : [computed]).filter(
+      (value): value is string => typeof value === "string"
+    );
+  } catch (error) {
+    console.warn(`⚠️ Erreur calcul du champ ${fieldPath}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Builds the returned fields of an index document from the source document.
+ *
+ * @param {string} indexedDocumentPath - The path of the source document.
+ * @param {FirestoreSearchEngineReturnedKey[]} returnedKey - Copied keys and projections.
+ * @param {Record<string, any>} data - The source document data.
+ * @return {object} - The returned fields, without the keys whose projection throws.
+ */
+export function fse_buildReturnedFields(
+  indexedDocumentPath: string,
+  returnedKey: FirestoreSearchEngineReturnedKey[],
+  data: Record<string, any>
+): { indexedDocumentPath: string } & Record<string, any> {
+  const returnedFields: { indexedDocumentPath: string } & Record<string, any> =
+    { indexedDocumentPath };
+
+  for (const entry of returnedKey) {
+    const key = fse_returnedKeyName(entry);
+    let value: unknown;
+    try {
+      value = typeof entry === "string" ? data[entry] : entry.project(data);
+    } catch (error) {
+      // Une projection en erreur ne bloque pas l'indexation du document
+      console.warn(`⚠️ Erreur projection de la clé ${key}:`, error);
+      continue;
+    }
+    if (value !== undefined) {
+      returnedFields[key] = value;
+    }
+  }
+
+  return returnedFields;
+}
+
+/**
+ * Name of the index document field of a returned key entry.
+ */
+export function fse_returnedKeyName(
+  entry: FirestoreSearchEngineReturnedKey
+): string {
+  return typeof entry === "string" ? entry : entry.key;
+}
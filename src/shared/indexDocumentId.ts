@@ -0,0 +1,26 @@
+import { createHash } from "crypto";
+
+/**
+ * Id of the index document of a source document, derived from its path so
+ * that indexing the same document twice overwrites the same index document.
+ *
+ * @param {string} indexedDocumentPath - The path of the source document.
+ * @return {string} - The sha1 of the path.
+ */
+export function fse_indexDocumentId(indexedDocumentPath: string): string {
+  return createHash("sha1").update(indexedDocumentPath).digest("hex");
+}
+
+/**
+ * Id of the chunk document of a passage, derived from the id of its index document.
+ *
+ * @param {string} indexDocumentId - The id of the index document.
+ * @param {{ field: string; index: number }} passage - The field of the passage and its index in the field.
+ * @return {string} - The chunk document id.
+ */
+export function fse_chunkDocumentId(
+  indexDocumentId: string,
+  passage: { field: string; index: number }
+): string {
+  return `${indexDocumentId}__${passage.field}__${passage.index}`;
+}
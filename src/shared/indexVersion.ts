@@ -0,0 +1,81 @@
+import type { DocumentData } from "@google-cloud/firestore";
+
+/**
+ * Index document field holding the update time of the indexed source document.
+ */
+export const FSE_SOURCE_UPDATE_TIME_FIELD = "_source_update_time";
+
+/**
+ * Index document field holding the id of the last processed trigger event.
+ */
+export const FSE_LAST_EVENT_ID_FIELD = "_last_event_id";
+
+/**
+ * Index document field flagging the tombstone of a deleted source document.
+ */
+export const FSE_DELETED_FIELD = "_deleted";
+
+/**
+ * Tombstone field holding its expiry date, meant for a Firestore TTL policy.
+ */
+export const FSE_EXPIRES_AT_FIELD = "_expires_at";
+
+/**
+ * Whether an index document is the tombstone of a deleted source document:
+ * it keeps the version of the deletion and must not be returned by searches.
+ *
+ * @param {DocumentData | undefined} indexData - The index document.
+ * @return {boolean} - true for a tombstone.
+ */
+export function fse_isTombstone(indexData: DocumentData | undefined): boolean {
+  return indexData?.[FSE_DELETED_FIELD] === true;
+}
+
+/**
+ * Whether an index document was written from a source more recent than sourceUpdateTime.
+ *
+ * @param {DocumentData | undefined} indexData - The current index document.
+ * @param {Date} sourceUpdateTime - Update time of the source being indexed (optional).
+ * @return {boolean} - true when writing the index would overwrite a more recent one.
+ */
+export function fse_isOutdatedIndex(
+  indexData: DocumentData | undefined,
+  sourceUpdateTime?: Date
+): boolean {
+  const indexedTime = indexData?.[FSE_SOURCE_UPDATE_TIME_FIELD];
+  if (!sourceUpdateTime || typeof indexedTime?.toMillis !== "function") {
+    return false;
+  }
+  return indexedTime.toMillis() > sourceUpdateTime.getTime();
+}
+
+/**
+ * Whether a trigger event was already processed for an index document
+ * (triggers are delivered at least once).
+ *
+ * @param {DocumentData | undefined} indexData - The current index document.
+ * @param {string} eventId - Id of the event being processed (optional).
+ * @return {boolean} - true when the index was written by this event.
+ */
+export function fse_isReplayedEvent(
+  indexData: DocumentData | undefined,
+  eventId?: string
+): boolean {
+  return !!eventId && indexData?.[FSE_LAST_EVENT_ID_FIELD] === eventId;
+}
+
+/**
+ * Update time of the source document of a trigger event: the update time of
+ * the snapshot, or the time of the event.
+ *
+ * @param {{ updateTime?: { toDate(): Date } }} snapshot - The document snapshot of the event.
+ * @param {string} eventTime - The time of the event (optional).
+ * @return {Date | undefined} - The update time.
+ */
+export function fse_sourceUpdateTime(
+  snapshot: { updateTime?: { toDate(): Date } },
+  eventTime?: string
+): Date | undefined {
+  if (snapshot.updateTime) return snapshot.updateTime.toDate();
+  return eventTime ? new Date(eventTime) : undefined;
+}
@@ -5,26 +5,114 @@
  * It is calculated as the minimum number of single-character edits (insertions, deletions or substitutions)
  * required to change one word into the other.
  *
+ * Only two rows of the matrix are kept, and the computation stops as soon as
+ * the distance is known to exceed maxDistance.
+ *
+ * @param {string} a - First string to compare.
+ * @param {string} b - Second string to compare.
+ * @param {number} maxDistance - Distance above which the computation stops (optional) default Infinity.
+ * @return {number} - The Levenshtein distance between the two input strings, maxDistance + 1 when it exceeds maxDistance.
+ */
+export function fse_levenshteinDistance(
+  a: string,
+  b: string,
+  maxDistance = Infinity
+): number {
+  return editDistance(a, b, maxDistance, false);
+}
+
+/**
+ * Calculate the Damerau-Levenshtein distance between two strings (optimal
+ * string alignment): a transposition of two adjacent characters counts as a
+ * single edit, "teh" → "the" is at distance 1.
+ *
  * @param {string} a - First string to compare.
  * @param {string} b - Second string to compare.
- * @return {number} - The Levenshtein distance between the two input strings.
+ * @param {number} maxDistance - Distance above which the computation stops (optional) default Infinity.
+ * @return {number} - The distance between the two input strings, maxDistance + 1 when it exceeds maxDistance.
  */
-export function fse_levenshteinDistance(a: string, b: string): number {
-  const matrix = Array.from({ length: a.length + 1 }, (_, i) => [
-    i,
-    ...Array(b.length).fill(0),
-  ]);
-  for (let j = 0; j <= b.length; j++) matrix[0][j] = j;
+export function fse_damerauLevenshteinDistance(
+  a: string,
+  b: string,
+  maxDistance = Infinity
+): number {
+  return editDistance(a, b, maxDistance, true);
+}
+
+/**
+ * Similarity of two strings from their edit distance, from 0 (nothing in
+ * common) to 1 (identical).
+ *
+ * @param {string} a - First string to compare.
+ * @param {string} b - Second string to compare.
+ * @param {object} options - transpositions (optional) default true uses the Damerau distance,
+ * minSimilarity (optional) default 0 returns 0 early for strings less similar.
+ * @return {number} - The normalized similarity.
+ */
+export function fse_normalizedSimilarity(
+  a: string,
+  b: string,
+  options: { transpositions?: boolean; minSimilarity?: number } = {}
+): number {
+  const length = Math.max(a.length, b.length);
+  if (length === 0) return 1;
+
+  const maxDistance = Math.floor((1 - (options.minSimilarity ?? 0)) * length);
+  const distance = editDistance(
+    a,
+    b,
+    maxDistance,
+    options.transpositions ?? true
+  );
+  if (distance > maxDistance) return 0;
+  return 1 - distance / length;
+}
+
+function editDistance(
+  a: string,
+  b: string,
+  maxDistance: number,
+  transpositions: boolean
+): number {
+  if (a === b) return 0;
+  // La différence de longueur est une borne inférieure de la distance
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let beforePrevious = new Array<number>(b.length + 1).fill(0);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1).fill(0);
+
   for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = current[0];
+
     for (let j = 1; j <= b.length; j++) {
       const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1, // Suppression
-        matrix[i][j - 1] + 1, // Insertion
-        matrix[i - 1][j - 1] + cost // Substitution
+      let value = Math.min(
+        previous[j] + 1, // Suppression
+        current[j - 1] + 1, // Insertion
+        previous[j - 1] + cost // Substitution
       );
+      if (
+        transpositions &&
+        i > 1 &&
+        j > 1 &&
+        a[i - 1] === b[j - 2] &&
+        a[i - 2] === b[j - 1]
+      ) {
+        value = Math.min(value, beforePrevious[j - 2] + 1); // Transposition
+      }
+      current[j] = value;
+      if (value < rowMin) rowMin = value;
     }
+
+    // Toute la ligne dépasse la borne : la distance finale aussi
+    if (rowMin > maxDistance) return maxDistance + 1;
+
+    [beforePrevious, previous, current] = [previous, current, beforePrevious];
   }
 
-  return matrix[a.length][b.length];
+  return Math.min(previous[b.length], maxDistance + 1);
 }
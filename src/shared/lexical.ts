@@ -0,0 +1,34 @@
+/**
+ * Maximum number of values accepted by an array-contains-any query.
+ */
+export const FSE_MAX_ARRAY_CONTAINS_ANY = 30;
+
+/**
+ * Splits a text into lowercase words (letters and digits only).
+ * @param {string} text - The text to tokenize.
+ * @return {string[]} - The words of at least 2 characters.
+ */
+export function fse_tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 2);
+}
+
+/**
+ * Builds the lexical tokens of a text: its words followed by their trigrams.
+ * Words come first so exact tokens (SKU, postcode, surname) are kept when the
+ * list is truncated.
+ * @param {string} text - The text to tokenize.
+ * @return {string[]} - The unique words and trigrams of the text.
+ */
+export function fse_lexicalTokens(text: string): string[] {
+  const words = fse_tokenize(text);
+  const tokens = new Set<string>(words);
+  for (const word of words) {
+    for (let i = 0; i + 3 <= word.length; i++) {
+      tokens.add(word.slice(i, i + 3));
+    }
+  }
+  return Array.from(tokens);
+}
@@ -0,0 +1,179 @@
+import type { FirestoreSearchEngineFusionStrategy } from "..";
+import { FSE_RRF_K } from "./reciprocalRankFusion";
+
+/**
+ * Supported strategies of fse_fuseFieldResults.
+ */
+export const FSE_FUSION_STRATEGIES: FirestoreSearchEngineFusionStrategy[] = [
+  "max",
+  "weightedSum",
+  "weightedMean",
+  "rrf",
+];
+
+/**
+ * Validates a fusion strategy (it can come from the HTTP parameters).
+ * @param {string} strategy - The requested strategy.
+ * @throws {Error} If the strategy is not supported.
+ */
+export function fse_validateFusionStrategy(
+  strategy: string
+): asserts strategy is FirestoreSearchEngineFusionStrategy {
+  if (
+    !FSE_FUSION_STRATEGIES.includes(
+      strategy as FirestoreSearchEngineFusionStrategy
+    )
+  ) {
+    throw unknownStrategyError(strategy);
+  }
+}
+
+/**
+ * Ranked results of the search in one field.
+ */
+export type FieldSearchResults = {
+  field: string;
+  weight: number;
+  results: any[];
+};
+
+/**
+ * Merges the results of per-field searches into one ranking.
+ *
+ * Strategies:
+ * - "max": best weighted score among the matched fields
+ * - "weightedSum": sum of the weighted scores of the matched fields
+ * - "weightedMean": weighted mean of the scores of the matched fields
+ * - "rrf": weighted Reciprocal Rank Fusion of the field rankings
+ *
+ * Field results are fused on their _score (scoring signals), or on their
+ * _relevanceScore when they were not ranked.
+ *
+ * @param {FieldSearchResults[]} fieldResults - Ranked results of each field.
+ * @param {FirestoreSearchEngineFusionStrategy} strategy - The fusion strategy.
+ * @param {number} limit - Maximum number of fused results.
+ * @return {any[]} - Results sorted by fused score (_score and _relevanceScore), with the per-field
+ * contributions in _matchedFields.
+ */
+export function fse_fuseFieldResults(
+  fieldResults: FieldSearchResults[],
+  strategy: FirestoreSearchEngineFusionStrategy,
+  limit: number
+): any[] {
+  const grouped = new Map<
+    string,
+    { resultsByField: Map<string, any>; matchedFields: any[] }
+  >();
+
+  for (const { field, weight, results } of fieldResults) {
+    results.forEach((result, rank) => {
+      // Score du modèle de signaux, à défaut la similarité vectorielle
+      const score = result._score ?? result._relevanceScore ?? 1.0;
+      const contribution = fieldContribution(strategy, score, weight, rank);
+      const matchedField = {
+        field,
+        weight,
+        score,
+        rank,
+        contribution,
+        strategy,
+      };
+
+      let entry = grouped.get(result.indexedDocumentPath);
+      if (!entry) {
+        entry = { resultsByField: new Map(), matchedFields: [] };
+        grouped.set(result.indexedDocumentPath, entry);
+      }
+      // Un document n'est compté qu'une fois par champ
+      if (entry.resultsByField.has(field)) return;
+      entry.resultsByField.set(field, result);
+      entry.matchedFields.push(matchedField);
+    });
+  }
+
+  return Array.from(grouped.values())
+    .map(({ resultsByField, matchedFields }) => {
+      const relevanceScore = fusedScore(strategy, matchedFields);
+
+      // Le champ qui contribue le plus fournit le texte affiché
+      const bestMatch = matchedFields.reduce((best, match) =>
+        match.contribution > best.contribution ? match : best
+      );
+      return {
+        ...resultsByField.get(bestMatch.field),
+        _fieldMatch: bestMatch.field,
+        _fieldWeight: bestMatch.weight,
+        _score: relevanceScore,
+        _relevanceScore: relevanceScore,
+        _fusionStrategy: strategy,
+        _matchedFields: matchedFields,
+      };
+    })
+    .sort((a, b) => b._score - a._score)
+    .slice(0, limit);
+}
+
+/**
+ * Contribution of the result of one field to the fused score
+ */
+function fieldContribution(
+  strategy: FirestoreSearchEngineFusionStrategy,
+  score: number,
+  weight: number,
+  rank: number
+): number {
+  switch (strategy) {
+    case "rrf":
+      return weight / (FSE_RRF_K + rank + 1);
+    case "weightedMean":
+      return score;
+    case "max":
+    case "weightedSum":
+      return score * weight;
+    default:
+      return unknownStrategy(strategy);
+  }
+}
+
+/**
+ * Fused score of a document from the matches of its fields
+ */
+function fusedScore(
+  strategy: FirestoreSearchEngineFusionStrategy,
+  matchedFields: { score: number; weight: number; contribution: number }[]
+): number {
+  const contributions = matchedFields.map((match) => match.contribution);
+  switch (strategy) {
+    case "max":
+      return Math.max(...contributions);
+    case "weightedMean": {
+      const totalWeight = matchedFields.reduce(
+        (sum, match) => sum + match.weight,
+        0
+      );
+      return (
+        matchedFields.reduce(
+          (sum, match) => sum + match.score * match.weight,
+          0
+        ) / (totalWeight || 1)
+      );
+    }
+    case "weightedSum":
+    case "rrf":
+      return contributions.reduce((sum, value) => sum + value, 0);
+    default:
+      return unknownStrategy(strategy);
+  }
+}
+
+function unknownStrategy(strategy: never): never {
+  throw unknownStrategyError(strategy);
+}
+
+function unknownStrategyError(strategy: string): Error {
+  return new Error(
+    `Unknown fusion strategy "${strategy}". Allowed strategies: ${FSE_FUSION_STRATEGIES.join(
+      ", "
+    )}.`
+  );
+}
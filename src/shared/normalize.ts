@@ -0,0 +1,111 @@
+import type { FirestoreSearchEngineNormalizationConfig } from "..";
+
+/**
+ * Built-in stopword lists, keyed by language.
+ */
+export const FSE_STOPWORDS: Record<"fr" | "en", string[]> = {
+  fr: (
+    "au aux avec ce ces d dans de des du elle en et eux il je l la le les " +
+    "leur lui ma mais me mes moi mon ne nos notre nous on ou par pas pour " +
+    "qu que qui s sa se ses son sur ta te tes toi ton tu un une vos votre " +
+    "vous y"
+  ).split(" "),
+  en: (
+    "a an and are as at be but by for from has have in is it its of on or " +
+    "that the this to was were will with"
+  ).split(" "),
+};
+
+/**
+ * Folds accents and ligatures: "Élise" → "Elise", "cœur" → "coeur".
+ */
+export function fse_foldAccents(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}+/gu, "")
+    .replace(/œ/g, "oe")
+    .replace(/Œ/g, "OE")
+    .replace(/æ/g, "ae")
+    .replace(/Æ/g, "AE")
+    .replace(/ß/g, "ss");
+}
+
+/**
+ * Creates the normalizer chain of an engine configuration.
+ * Without configuration texts are only lowercased and trimmed.
+ *
+ * The chain runs in this order: lowercase, accent folding, punctuation
+ * stripping, dictionary replacements, stopword removal, custom normalizers.
+ *
+ * @param {FirestoreSearchEngineNormalizationConfig} config - The normalization configuration (optional).
+ * @return {(text: string) => string} - The normalizer.
+ */
+export function fse_createNormalizer(
+  config?: FirestoreSearchEngineNormalizationConfig
+): (text: string) => string {
+  if (!config) return (text) => text.toLowerCase().trim();
+
+  const foldAccents = config.foldAccents !== false;
+  const stripPunctuation = config.stripPunctuation !== false;
+
+  // Les clés des listes passent par les mêmes étapes que les textes
+  const prepare = (text: string) => {
+    let prepared = text.toLowerCase();
+    if (foldAccents) prepared = fse_foldAccents(prepared);
+    if (stripPunctuation) prepared = prepared.replace(/[^\p{L}\p{N}]+/gu, " ");
+    return prepared.replace(/\s+/g, " ").trim();
+  };
+
+  const stopwords = new Set(
+    (typeof config.stopwords === "string"
+      ? FSE_STOPWORDS[config.stopwords] ?? []
+      : config.stopwords ?? []
+    ).map(prepare)
+  );
+  const replacements = Object.entries(config.dictionary ?? {})
+    .map(([term, replacement]) => [prepare(term), prepare(replacement)])
+    .filter(([term]) => term.length > 0)
+    // Les expressions les plus longues d'abord ("st jean" avant "st")
+    .sort(([a], [b]) => b.length - a.length)
+    .map(
+      ([term, replacement]) =>
+        [
+          new RegExp(
+            `(?<= )${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?= )`,
+            "g"
+          ),
+          replacement,
+        ] as const
+    );
+
+  return (text) => {
+    let normalized = ` ${prepare(text)} `;
+
+    for (const [pattern, replacement] of replacements) {
+      normalized = normalized.replace(pattern, () => replacement);
+    }
+
+    if (stopwords.size > 0) {
+      const words = normalized.trim().split(" ");
+      const kept = words.filter((word) => !stopwords.has(word));
+      // Ne pas vider une requête faite uniquement de mots vides
+      if (kept.length > 0) normalized = kept.join(" ");
+    }
+
+    normalized = normalized.trim();
+    for (const normalizer of config.custom ?? []) {
+      normalized = normalizer(normalized);
+    }
+    return normalized;
+  };
+}
+
+/**
+ * Normalizes a text with the normalizer chain of a configuration.
+ */
+export function fse_normalizeText(
+  text: string,
+  config?: FirestoreSearchEngineNormalizationConfig
+): string {
+  return fse_createNormalizer(config)(text);
+}
@@ -0,0 +1,54 @@
+import { createHash } from "crypto";
+
+/**
+ * Maximum number of neighbours returned by a findNearest query.
+ */
+export const FSE_MAX_FIND_NEAREST_LIMIT = 1000;
+
+/**
+ * Computes the fingerprint of a search, so a page token cannot be reused
+ * with another query, filters or tenant.
+ * @param {unknown} search - The properties defining the ranked results.
+ * @return {string} - A short hash of the search.
+ */
+export function fse_searchFingerprint(search: unknown): string {
+  return createHash("sha1")
+    .update(JSON.stringify(search))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+/**
+ * Encodes an opaque page token.
+ * @param {number} offset - Rank of the first result of the next page.
+ * @param {string} fingerprint - Fingerprint of the search.
+ * @return {string} - The base64url page token.
+ */
+export function fse_encodePageToken(offset: number, fingerprint: string) {
+  return Buffer.from(JSON.stringify({ o: offset, f: fingerprint })).toString(
+    "base64url"
+  );
+}
+
+/**
+ * Decodes a page token and returns the offset of the page.
+ * @param {string | undefined} pageToken - The token of a previous response.
+ * @param {string} fingerprint - Fingerprint of the current search.
+ * @return {number} - The offset, 0 without token.
+ * @throws {Error} If the token is malformed or was issued for another search.
+ */
+export function fse_decodePageToken(
+  pageToken: string | undefined,
+  fingerprint: string
+): number {
+  if (!pageToken) return 0;
+  try {
+    const { o, f } = JSON.parse(
+      Buffer.from(pageToken, "base64url").toString("utf8")
+    );
+    if (f === fingerprint && Number.isInteger(o) && o >= 0) return o;
+  } catch (error) {
+    // Token illisible, traité ci-dessous
+  }
+  throw new Error("pageToken is invalid or was issued for another search.");
+}
@@ -0,0 +1,147 @@
+import type {
+  FirestoreSearchEngineConfig,
+  FirestoreSearchEnginePhoneticAlgorithm,
+} from "..";
+import { fse_tokenize } from "./lexical";
+import { fse_foldAccents } from "./normalize";
+
+/**
+ * Index document field holding the phonetic keys of the indexed texts.
+ */
+export const FSE_PHONETIC_FIELD = "_phonetic_keys";
+
+/**
+ * Prefix of the keys of each algorithm in _phonetic_keys.
+ */
+const PHONETIC_KEY_PREFIXES: Record<
+  FirestoreSearchEnginePhoneticAlgorithm,
+  string
+> = {
+  soundex: "sx",
+  soundex2: "s2",
+};
+
+/**
+ * Soundex digit of each letter from A to Z, 0 for the vowels.
+ */
+const SOUNDEX_CODES = "01230120022455012623010202";
+
+/**
+ * Uppercase latin letters of a word, accents folded.
+ */
+function lettersOf(word: string): string {
+  return fse_foldAccents(word)
+    .toUpperCase()
+    .replace(/[^A-Z]/g, "");
+}
+
+/**
+ * American Soundex code of a word: "Robert" → "R163".
+ *
+ * @param {string} word - The word to encode.
+ * @return {string} - The Soundex code, empty when the word has no latin letter.
+ */
+export function fse_soundex(word: string): string {
+  const letters = lettersOf(word);
+  if (!letters) return "";
+
+  let code = letters[0];
+  let previous = SOUNDEX_CODES[letters.charCodeAt(0) - 65];
+  for (const letter of letters.slice(1)) {
+    // H et W ne séparent pas deux consonnes de même code
+    if (letter === "H" || letter === "W") continue;
+    const digit = SOUNDEX_CODES[letter.charCodeAt(0) - 65];
+    if (digit !== "0" && digit !== previous) code += digit;
+    previous = digit;
+    if (code.length === 4) break;
+  }
+
+  return code.padEnd(4, "0");
+}
+
+/**
+ * French Soundex2 code of a word: "Martin" → "MRTN", "Phillipe" → "FLP".
+ * Adapted to French spelling (GU, QU, PH, SCH, silent endings).
+ *
+ * @param {string} word - The word to encode.
+ * @return {string} - The Soundex2 code (up to 4 letters), empty when the word has no latin letter.
+ */
+export function fse_soundex2(word: string): string {
+  let code = lettersOf(word);
+  if (!code) return "";
+
+  // Groupes de lettres prononcés K
+  code = code
+    .replace(/GUI/g, "KI")
+    .replace(/GUE/g, "KE")
+    .replace(/GA/g, "KA")
+    .replace(/GO/g, "KO")
+    .replace(/GU/g, "K")
+    .replace(/CA/g, "KA")
+    .replace(/CO/g, "KO")
+    .replace(/CU/g, "KU")
+    .replace(/Q/g, "K")
+    .replace(/CC/g, "K")
+    .replace(/CK/g, "K");
+
+  // Toutes les voyelles sauf Y deviennent A, sauf la première lettre
+  code = code[0] + code.slice(1).replace(/[EIOU]/g, "A");
+
+  // Préfixes
+  code = code
+    .replace(/^MAC/, "MCC")
+    .replace(/^ASA/, "AZA")
+    .replace(/^KN/, "NN")
+    .replace(/^PF/, "FF")
+    .replace(/^SCH/, "SSS")
+    .replace(/^PH/, "FF");
+
+  code = code
+    // H muet sauf dans CH et SH
+    .replace(/(?<![CS])H/g, "")
+    // Y muet sauf après A
+    .replace(/(?<!A)Y/g, "")
+    // Terminaisons muettes
+    .replace(/[ADTS]$/, "");
+
+  // Les A disparaissent sauf en tête, puis les lettres répétées
+  code = (code[0] ?? "") + code.slice(1).replace(/A/g, "");
+  code = code.replace(/(.)\1+/g, "$1");
+
+  return code.slice(0, 4);
+}
+
+/**
+ * Phonetic keys of a text, one per word and algorithm, prefixed by the
+ * algorithm ("s2:MRTN", "sx:M635"). Numbers have no phonetic key.
+ *
+ * @param {string} text - The text to encode.
+ * @param {FirestoreSearchEnginePhoneticAlgorithm[]} algorithms - The algorithms to use.
+ * @return {string[]} - The unique phonetic keys of the text.
+ */
+export function fse_phoneticKeys(
+  text: string,
+  algorithms: FirestoreSearchEnginePhoneticAlgorithm[]
+): string[] {
+  const keys = new Set<string>();
+
+  for (const word of fse_tokenize(text)) {
+    if (/^\p{N}+$/u.test(word)) continue;
+    for (const algorithm of algorithms) {
+      const code =
+        algorithm === "soundex" ? fse_soundex(word) : fse_soundex2(word);
+      if (code) keys.add(`${PHONETIC_KEY_PREFIXES[algorithm]}:${code}`);
+    }
+  }
+
+  return Array.from(keys);
+}
+
+/**
+ * Phonetic algorithms of an engine configuration (default soundex2).
+ */
+export function fse_phoneticAlgorithms(
+  config: FirestoreSearchEngineConfig
+): FirestoreSearchEnginePhoneticAlgorithm[] {
+  return config.phonetic?.algorithms ?? ["soundex2"];
+}
@@ -0,0 +1,129 @@
+import type { Firestore } from "@google-cloud/firestore";
+import { createHash } from "crypto";
+import type {
+  EmbeddingProvider,
+  FirestoreSearchEngineQueryCacheConfig,
+} from "..";
+
+/**
+ * Hit/miss counters of a query embedding cache.
+ */
+export type QueryEmbeddingCacheStats = {
+  hits: number;
+  misses: number;
+  persistentHits: number;
+  size: number;
+};
+
+/**
+ * LRU cache of query vectors keyed by normalized query + model id.
+ * Optionally persisted in a Firestore collection so cold-started instances
+ * can reuse the vectors computed by other instances.
+ */
+export class QueryEmbeddingCache {
+  private readonly entries = new Map<string, number[]>();
+  private readonly maxSize: number;
+  private readonly ttlSeconds: number;
+  private hits = 0;
+  private misses = 0;
+  private persistentHits = 0;
+
+  constructor(
+    private readonly firestoreInstance: Firestore,
+    private readonly config: FirestoreSearchEngineQueryCacheConfig = {}
+  ) {
+    this.maxSize = config.maxSize ?? 500;
+    this.ttlSeconds = config.ttlSeconds ?? 30 * 24 * 3600;
+  }
+
+  /**
+   * Returns the cached vector of the query or embeds it with the provider.
+   */
+  async getOrEmbed(query: string, provider: EmbeddingProvider) {
+    // La même chaîne sert de clé et de texte vectorisé : le vecteur en cache
+    // ne dépend pas de la graphie arrivée en premier
+    const normalizedQuery = query.toLowerCase().trim().replace(/\s+/g, " ");
+    const key = `${provider.modelId}::${normalizedQuery}`;
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Remettre l'entrée en tête de l'ordre LRU
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      this.hits++;
+      return cached;
+    }
+
+    const persisted = await this.readPersisted(key);
+    if (persisted) {
+      this.persistentHits++;
+      this.remember(key, persisted);
+      return persisted;
+    }
+
+    this.misses++;
+    const vector = await provider.embed(normalizedQuery);
+    this.remember(key, vector);
+    await this.writePersisted(key, provider.modelId, vector);
+    return vector;
+  }
+
+  getStats(): QueryEmbeddingCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      persistentHits: this.persistentHits,
+      size: this.entries.size,
+    };
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  private remember(key: string, vector: number[]) {
+    this.entries.set(key, vector);
+    if (this.entries.size > this.maxSize) {
+      // La première clé de la Map est la moins récemment utilisée
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) this.entries.delete(oldestKey);
+    }
+  }
+
+  private persistedRef(key: string) {
+    return this.firestoreInstance
+      .collection(this.config.persistentCollection as string)
+      .doc(createHash("sha1").update(key).digest("hex"));
+  }
+
+  private async readPersisted(key: string): Promise<number[] | null> {
+    if (!this.config.persistentCollection) return null;
+    try {
+      const snap = await this.persistedRef(key).get();
+      const data = snap.data();
+      if (!data || data.key !== key || !Array.isArray(data.vector)) {
+        return null;
+      }
+      const expiresAt = data.expiresAt?.toMillis?.() ?? 0;
+      if (expiresAt < Date.now()) return null;
+      return data.vector as number[];
+    } catch (error) {
+      console.warn("⚠️ Lecture du cache de requêtes impossible:", error);
+      return null;
+    }
+  }
+
+  private async writePersisted(key: string, modelId: string, vector: number[]) {
+    if (!this.config.persistentCollection || vector.length === 0) return;
+    try {
+      await this.persistedRef(key).set({
+        key,
+        modelId,
+        vector,
+        expiresAt: new Date(Date.now() + this.ttlSeconds * 1000),
+      });
+    } catch (error) {
+      console.warn("⚠️ Écriture du cache de requêtes impossible:", error);
+    }
+  }
+}
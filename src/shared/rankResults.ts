@@ -1,32 +1,37 @@
-import { fse_levenshteinDistance } from "./levenshteinDistance";
+import type { FirestoreSearchEngineScoringWeights } from "..";
+import { fse_scoreResult } from "./scoring";
 
 /**
  * Function to rank the results of a search engine index.
+ * Each result receives a _score, the weighted mean of the scoring signals,
+ * and results are sorted from the best score.
  * @param {any[]} results - Results to be ranked.
  * @param {string} query - The search query.
- * @returns {any[]} - An array of ranked results.
+ * @param {object} options - Scoring weights, debug mode and searched field (optional).
+ * @returns {any[]} - An array of ranked results, with a _scoreBreakdown in debug mode.
  */
-export function fse_rankResults(results: any[], query: string): any[] {
+export function fse_rankResults(
+  results: any[],
+  query: string,
+  options: {
+    weights?: FirestoreSearchEngineScoringWeights;
+    debug?: boolean;
+    field?: string;
+  } = {}
+): any[] {
   return results
     .map((result) => {
-      // Handle both old and new field formats
-      const fieldValue = result.fieldValue || result._fieldValue || "";
-
-      const textSimilarityScore = fse_levenshteinDistance(
-        query.toLowerCase(),
-        fieldValue.toLowerCase()
-      );
-      const [a, b, c, d, e, f, g, h, i, j] = query.toLowerCase();
-      const textSimilarityScoreReverse = fse_levenshteinDistance(
-        [a, b, c, d, e, f, g, h, i, j].reverse().join(""),
-        fieldValue.toLowerCase()
+      const breakdown = fse_scoreResult(
+        result,
+        query,
+        options.weights,
+        options.field
       );
-      const distanceScore = 1 + (result.distance || 0) * 10;
-      const finalScore =
-        0.03 * (textSimilarityScore + textSimilarityScoreReverse) +
-        0.97 * distanceScore;
-      return { ...result, finalScore };
+      return {
+        ...result,
+        _score: breakdown.score,
+        ...(options.debug ? { _scoreBreakdown: breakdown } : {}),
+      };
     })
-    .sort((a, b) => b.finalScore - a.finalScore)
-    .reverse();
+    .sort((a, b) => b._score - a._score);
 }
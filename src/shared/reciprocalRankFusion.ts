@@ -0,0 +1,43 @@
+/**
+ * Default smoothing constant of Reciprocal Rank Fusion.
+ */
+export const FSE_RRF_K = 60;
+
+/**
+ * Fuses several ranked lists with Reciprocal Rank Fusion.
+ *
+ * Each item receives the sum of 1 / (k + rank) over the lists it appears in,
+ * so items ranked well by several sources come first.
+ *
+ * @param {T[][]} lists - Ranked lists, best item first.
+ * @param {(item: T) => string} getKey - Identifies the same item across lists.
+ * @param {number} k - Smoothing constant (default FSE_RRF_K).
+ * @return {{ key: string; score: number; items: (T | undefined)[] }[]} - Fused entries sorted by score,
+ * items[i] holds the item found in lists[i].
+ */
+export function fse_reciprocalRankFusion<T>(
+  lists: T[][],
+  getKey: (item: T) => string,
+  k = FSE_RRF_K
+): { key: string; score: number; items: (T | undefined)[] }[] {
+  const fused = new Map<
+    string,
+    { key: string; score: number; items: (T | undefined)[] }
+  >();
+
+  lists.forEach((list, listIndex) => {
+    list.forEach((item, rank) => {
+      const key = getKey(item);
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { key, score: 0, items: new Array(lists.length) };
+        fused.set(key, entry);
+      }
+      if (entry.items[listIndex] !== undefined) return;
+      entry.items[listIndex] = item;
+      entry.score += 1 / (k + rank + 1);
+    });
+  });
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
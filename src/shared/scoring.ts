@@ -0,0 +1,144 @@
+import type {
+  FirestoreSearchEngineScoringSignal,
+  FirestoreSearchEngineScoringWeights,
+} from "..";
+import { fse_tokenize } from "./lexical";
+import { fse_normalizedSimilarity } from "./levenshteinDistance";
+
+/**
+ * Default weights of the scoring signals.
+ */
+export const FSE_DEFAULT_SCORING_WEIGHTS: Record<
+  FirestoreSearchEngineScoringSignal,
+  number
+> = {
+  vectorSimilarity: 0.7,
+  editDistance: 0.15,
+  prefixMatch: 0.05,
+  exactToken: 0.1,
+  fieldWeight: 0,
+};
+
+/**
+ * Score of a result and the signals it was computed from.
+ */
+export type ScoreBreakdown = {
+  score: number;
+  signals: Record<FirestoreSearchEngineScoringSignal, number>;
+  weights: Record<FirestoreSearchEngineScoringSignal, number>;
+  text: string;
+  field?: string;
+};
+
+/**
+ * Values of the signals of a text for a query, from 0 to 1:
+ * - editDistance: Damerau edit similarity with the whole text or its closest word
+ * - prefixMatch: 1 when the text starts with the query, 0.5 when one of its words does
+ * - exactToken: share of the query words found in the text
+ */
+function textSignals(query: string, text: string) {
+  const words = fse_tokenize(text);
+  const queryWords = fse_tokenize(query);
+
+  // Borne : seules les similarités au-dessus de la meilleure connue comptent
+  let editDistance = fse_normalizedSimilarity(query, text);
+  for (const word of words) {
+    editDistance = Math.max(
+      editDistance,
+      fse_normalizedSimilarity(query, word, { minSimilarity: editDistance })
+    );
+  }
+  const prefixMatch = text.startsWith(query)
+    ? 1
+    : words.some((word) => word.startsWith(query))
+    ? 0.5
+    : 0;
+  const exactToken =
+    queryWords.length === 0
+      ? 0
+      : queryWords.filter((word) => words.includes(word)).length /
+        queryWords.length;
+
+  return { editDistance, prefixMatch, exactToken };
+}
+
+/**
+ * Scores a search result as the weighted mean of its signals.
+ *
+ * The text compared with the query is the searched field of the result, or
+ * its closest indexed field ([field]_original) when the search had no target field.
+ *
+ * @param {any} result - The search result.
+ * @param {string} query - The normalized query.
+ * @param {FirestoreSearchEngineScoringWeights} weights - Weights overriding the defaults (optional).
+ * @param {string} field - The searched field, as named in index documents (optional).
+ * @return {ScoreBreakdown} - The score and its breakdown.
+ */
+export function fse_scoreResult(
+  result: any,
+  query: string,
+  weights: FirestoreSearchEngineScoringWeights = {},
+  field?: string
+): ScoreBreakdown {
+  const resolvedWeights = { ...FSE_DEFAULT_SCORING_WEIGHTS };
+  for (const [signal, weight] of Object.entries(weights)) {
+    if (typeof weight === "number") {
+      resolvedWeights[signal as FirestoreSearchEngineScoringSignal] = weight;
+    }
+  }
+  const lowerQuery = query.toLowerCase().trim();
+
+  const texts: [string | undefined, string][] = (
+    field
+      ? [[field, result.fieldValue ?? result[`${field}_original`]]]
+      : result.fieldValue
+      ? [[undefined, result.fieldValue]]
+      : Object.keys(result._field_weights ?? {}).map((name) => [
+          name,
+          result[`${name}_original`],
+        ])
+  ).filter(
+    (entry): entry is [string | undefined, string] =>
+      typeof entry[1] === "string"
+  );
+
+  // Le texte le plus proche de la requête porte les signaux textuels
+  let text = "";
+  let textField: string | undefined;
+  let signals = { editDistance: 0, prefixMatch: 0, exactToken: 0 };
+  for (const [candidateField, candidate] of texts) {
+    const candidateSignals = textSignals(lowerQuery, candidate.toLowerCase());
+    if (!text || candidateSignals.editDistance > signals.editDistance) {
+      text = candidate;
+      textField = candidateField;
+      signals = candidateSignals;
+    }
+  }
+
+  const allSignals: Record<FirestoreSearchEngineScoringSignal, number> = {
+    vectorSimilarity: Math.min(Math.max(result._relevanceScore ?? 0, 0), 1),
+    ...signals,
+    fieldWeight:
+      result._fieldWeight ??
+      (textField ? result._field_weights?.[textField] : undefined) ??
+      1,
+  };
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [signal, weight] of Object.entries(resolvedWeights) as [
+    FirestoreSearchEngineScoringSignal,
+    number
+  ][]) {
+    weighted += allSignals[signal] * weight;
+    totalWeight += weight;
+  }
+
+  return {
+    score: totalWeight > 0 ? weighted / totalWeight : 0,
+    signals: allSignals,
+    weights: resolvedWeights,
+    text,
+    field: textField,
+  };
+}
@@ -0,0 +1,138 @@
+import type { Query } from "@google-cloud/firestore";
+import type {
+  FirestoreSearchEngineFilter,
+  FirestoreSearchEngineFilterOperator,
+  FirestoreSearchEngineTenantConfig,
+} from "..";
+import { FSE_MAX_ARRAY_CONTAINS_ANY } from "./lexical";
+import { FSE_TENANT_FIELD } from "./tenant";
+
+const FILTER_OPERATORS: FirestoreSearchEngineFilterOperator[] = [
+  "==",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "in",
+  "not-in",
+  "array-contains",
+  "array-contains-any",
+];
+
+const ARRAY_OPERATORS: FirestoreSearchEngineFilterOperator[] = [
+  "in",
+  "not-in",
+  "array-contains-any",
+];
+
+const ARRAY_MEMBERSHIP_OPERATORS: FirestoreSearchEngineFilterOperator[] = [
+  "array-contains",
+  "array-contains-any",
+];
+
+/**
+ * Validates search filters against the keys stored on index documents.
+ * @param {FirestoreSearchEngineFilter[]} filters - The filters of the search.
+ * @param {string[] | undefined} returnedKeys - The keys copied on index documents.
+ * @param {string[]} arrayQueryModes - Enabled modes whose query already has an
+ * array-contains clause (hybrid, phonetic, autocomplete) (optional) default [].
+ * @throws {Error} If a filter references a non-returned field or is malformed.
+ */
+export function fse_validateSearchFilters(
+  filters: FirestoreSearchEngineFilter[],
+  returnedKeys: string[] | undefined,
+  arrayQueryModes: string[] = []
+): void {
+  if (!Array.isArray(filters)) {
+    throw new Error("filters must be an array of { field, op, value }.");
+  }
+  if (filters.length === 0) return;
+
+  if (!returnedKeys) {
+    throw new Error(
+      "filters require the returnedKeys option in the search engine configuration."
+    );
+  }
+
+  for (const filter of filters) {
+    if (!filter || typeof filter.field !== "string") {
+      throw new Error("Each filter must have a field name.");
+    }
+    if (!returnedKeys.includes(filter.field)) {
+      throw new Error(
+        `Filter field "${
+          filter.field
+        }" is not a returned key. Allowed fields: ${returnedKeys.join(", ")}.`
+      );
+    }
+    if (!FILTER_OPERATORS.includes(filter.op)) {
+      throw new Error(
+        `Filter operator "${filter.op}" is not supported for field "${filter.field}".`
+      );
+    }
+    if (
+      ARRAY_OPERATORS.includes(filter.op) &&
+      (!Array.isArray(filter.value) ||
+        filter.value.length === 0 ||
+        filter.value.length > FSE_MAX_ARRAY_CONTAINS_ANY)
+    ) {
+      throw new Error(
+        `Filter "${filter.field} ${filter.op}" requires an array of 1 to ${FSE_MAX_ARRAY_CONTAINS_ANY} values.`
+      );
+    }
+    // Firestore n'accepte qu'une clause array-contains(-any) par requête
+    if (
+      ARRAY_MEMBERSHIP_OPERATORS.includes(filter.op) &&
+      arrayQueryModes.length > 0
+    ) {
+      throw new Error(
+        `Filter "${filter.field} ${
+          filter.op
+        }" cannot be used with ${arrayQueryModes.join(
+          ", "
+        )}: Firestore allows a single array-contains or array-contains-any clause per query.`
+      );
+    }
+    if (filter.value === undefined) {
+      throw new Error(`Filter "${filter.field}" requires a value.`);
+    }
+  }
+}
+
+/**
+ * Applies search filters as where clauses on a Firestore query.
+ * @param {Query} query - The query to restrict.
+ * @param {FirestoreSearchEngineFilter[]} filters - The validated filters.
+ * @return {Query} - The restricted query.
+ */
+export function fse_applySearchFilters(
+  query: Query,
+  filters: FirestoreSearchEngineFilter[] = []
+): Query {
+  return filters.reduce(
+    (filteredQuery, { field, op, value }) =>
+      filteredQuery.where(field, op, value),
+    query
+  );
+}
+
+/**
+ * Where clauses of a search: the user filters, restricted to the tenant of
+ * the search when the engine is multi-tenant.
+ * @param {FirestoreSearchEngineTenantConfig | undefined} tenant - The tenant configuration.
+ * @param {FirestoreSearchEngineFilter[] | undefined} filters - The filters of the search.
+ * @param {string | undefined} tenantId - The tenant of the search.
+ * @return {FirestoreSearchEngineFilter[]} - The filters to apply.
+ */
+export function fse_withTenantFilter(
+  tenant: FirestoreSearchEngineTenantConfig | undefined,
+  filters: FirestoreSearchEngineFilter[] | undefined,
+  tenantId: string | undefined
+): FirestoreSearchEngineFilter[] {
+  const scopedFilters = [...(filters ?? [])];
+  if (tenant) {
+    scopedFilters.push({ field: FSE_TENANT_FIELD, op: "==", value: tenantId });
+  }
+  return scopedFilters;
+}
@@ -0,0 +1,114 @@
+import type { Firestore } from "@google-cloud/firestore";
+import type { FirestoreSearchEngineSynonymsConfig } from "..";
+
+/**
+ * Synonyms keyed by term: { tel: ["telephone"], appart: ["appartement"] }.
+ */
+export type SynonymMap = { [term: string]: string[] };
+
+/**
+ * Expands a query into variants where one term is replaced by one of its
+ * synonyms. The original query always comes first.
+ *
+ * @param {string} query - The normalized query.
+ * @param {SynonymMap} synonyms - The normalized synonym map.
+ * @param {number} maxExpansions - Maximum number of variants besides the query.
+ * @return {string[]} - The query followed by its expansions.
+ */
+export function fse_expandQuery(
+  query: string,
+  synonyms: SynonymMap,
+  maxExpansions: number
+): string[] {
+  const expansions = new Set<string>([query]);
+  const padded = ` ${query} `;
+
+  // Les expressions les plus longues d'abord ("salle de bain" avant "salle")
+  const terms = Object.keys(synonyms).sort((a, b) => b.length - a.length);
+
+  for (const term of terms) {
+    if (!padded.includes(` ${term} `)) continue;
+    for (const synonym of synonyms[term]) {
+      if (expansions.size > maxExpansions) break;
+      expansions.add(padded.replace(` ${term} `, ` ${synonym} `).trim());
+    }
+  }
+
+  return Array.from(expansions);
+}
+
+/**
+ * Synonym dictionary of an engine: the synonyms of the configuration merged
+ * with the ones of a Firestore document, reloaded every cacheSeconds.
+ */
+export class SynonymDictionary {
+  private synonyms: SynonymMap | null = null;
+  private loadedAt = 0;
+
+  constructor(
+    private readonly firestoreInstance: Firestore,
+    private readonly config: FirestoreSearchEngineSynonymsConfig,
+    private readonly normalize: (text: string) => string
+  ) {}
+
+  /**
+   * Returns the query followed by its synonym expansions.
+   */
+  async expand(query: string): Promise<string[]> {
+    const synonyms = await this.getSynonyms();
+    return fse_expandQuery(query, synonyms, this.config.maxExpansions ?? 3);
+  }
+
+  /**
+   * Returns the normalized synonym map, loading the Firestore document if needed.
+   */
+  async getSynonyms(): Promise<SynonymMap> {
+    const cacheSeconds = this.config.cacheSeconds ?? 300;
+    if (this.synonyms && Date.now() - this.loadedAt < cacheSeconds * 1000) {
+      return this.synonyms;
+    }
+
+    const synonyms: SynonymMap = {};
+    const add = (map: SynonymMap | undefined) => {
+      for (const [term, values] of Object.entries(map ?? {})) {
+        if (!Array.isArray(values)) continue;
+        const key = this.normalize(term);
+        if (!key) continue;
+        const normalized = values
+          .filter((value) => typeof value === "string")
+          .map(this.normalize)
+          .filter((value) => value && value !== key);
+        synonyms[key] = Array.from(
+          new Set([...(synonyms[key] ?? []), ...normalized])
+        );
+      }
+    };
+
+    add(this.config.map);
+    add(await this.readDocument());
+
+    this.synonyms = synonyms;
+    this.loadedAt = Date.now();
+    return synonyms;
+  }
+
+  /**
+   * Forgets the loaded synonyms, the document is read again on the next search.
+   */
+  clear() {
+    this.synonyms = null;
+  }
+
+  private async readDocument(): Promise<SynonymMap | undefined> {
+    if (!this.config.document) return undefined;
+    try {
+      const snap = await this.firestoreInstance.doc(this.config.document).get();
+      const data = snap.data();
+      // Le document contient { synonyms: {...} } ou directement la map
+      return data?.synonyms ?? data;
+    } catch (error) {
+      console.warn("⚠️ Lecture du document de synonymes impossible:", error);
+      return this.synonyms ?? undefined;
+    }
+  }
+}
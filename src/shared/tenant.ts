@@ -0,0 +1,54 @@
+import type { FirestoreSearchEngineTenantConfig } from "..";
+
+/**
+ * Name of the index document field holding the tenant id.
+ */
+export const FSE_TENANT_FIELD = "_tenant_id";
+
+/**
+ * Derives the tenant id of an index document from the source document path
+ * (tenant.pathSegment) or from a source field (tenant.sourceField).
+ * @param {FirestoreSearchEngineTenantConfig} tenant - The tenant configuration.
+ * @param {{ indexedDocumentPath: string } & Record<string, any>} returnedFields - The fields of the index document.
+ * @return {string} - The tenant id.
+ * @throws {Error} If the tenant id cannot be derived, to never write an unscoped index.
+ */
+export function fse_getIndexTenantId(
+  tenant: FirestoreSearchEngineTenantConfig,
+  returnedFields: { indexedDocumentPath: string } & Record<string, any>
+): string {
+  const tenantId =
+    tenant.pathSegment !== undefined
+      ? returnedFields.indexedDocumentPath.split("/")[tenant.pathSegment]
+      : tenant.sourceField
+      ? returnedFields[tenant.sourceField]
+      : undefined;
+
+  if (typeof tenantId !== "string" || tenantId.length === 0) {
+    throw new Error(
+      `Unable to derive the tenant id of ${returnedFields.indexedDocumentPath}. ` +
+        `Configure tenant.pathSegment or tenant.sourceField.`
+    );
+  }
+  return tenantId;
+}
+
+/**
+ * Copies the tenant source field of a document in the returned fields,
+ * so the indexer can stamp the tenant id.
+ */
+export function fse_withTenantSourceField<T extends Record<string, any>>(
+  tenant: FirestoreSearchEngineTenantConfig | undefined,
+  returnedFields: T,
+  sourceDocument: Record<string, any>
+) {
+  if (
+    tenant?.sourceField &&
+    returnedFields[tenant.sourceField] === undefined &&
+    sourceDocument[tenant.sourceField] !== undefined
+  ) {
+    (returnedFields as Record<string, any>)[tenant.sourceField] =
+      sourceDocument[tenant.sourceField];
+  }
+  return returnedFields;
+}
@@ -1,41 +1,190 @@
 import { EmbeddingModel, ExecutionProvider, FlagEmbedding } from "fastembed";
+import type { EmbeddingProvider, FirestoreSearchEngineConfig } from "..";
 
 /**
- * Singleton instance of the embedding model.
+ * Options of the default fastembed provider.
  */
-let embeddingModel: FlagEmbedding | null = null;
+export type FastEmbedProviderOptions = {
+  /**
+   * The fastembed model (optional) default AllMiniLML6V2.
+   */
+  model?: EmbeddingModel;
+  /**
+   * Absolute directory of a custom ONNX model (with model: EmbeddingModel.CUSTOM).
+   */
+  modelAbsoluteDirPath?: string;
+  /**
+   * File name of the custom ONNX model (with model: EmbeddingModel.CUSTOM).
+   */
+  modelName?: string;
+  /**
+   * Vector dimension, required for models fastembed does not list (custom ONNX).
+   */
+  dimension?: number;
+  /**
+   * Directory where the model is downloaded (optional) default "src/cache".
+   */
+  cacheDir?: string;
+  /**
+   * Execution providers (optional) default [CPU].
+   */
+  executionProviders?: ExecutionProvider[];
+  /**
+   * Maximum token length of the embedded texts (optional) default 100.
+   */
+  maxLength?: number;
+  /**
+   * Prefix added before each text (optional) default "query: ".
+   */
+  textPrefix?: string;
+};
+
 /**
- * Initialize the embedding model if not already initialized.
+ * Dimensions of the models shipped by fastembed, keyed by model id.
  */
-async function getEmbeddingModel(maxLength: number): Promise<FlagEmbedding> {
-  if (!embeddingModel) {
-    embeddingModel = await FlagEmbedding.init({
-      model: EmbeddingModel.AllMiniLML6V2,
-      // modelAbsoluteDirPath: path.resolve(
-      //   getDirname(import.meta.url),
-      //   "../cache/custom"
-      // ),
-      // modelName: "model_quint8_avx2.onnx",
-      cacheDir: "src/cache",
-      executionProviders: [ExecutionProvider.CPU],
-      maxLength: maxLength,
-    });
+const FASTEMBED_DIMENSIONS: Record<string, number> = {
+  "fast-all-MiniLM-L6-v2": 384,
+  "fast-bge-small-en": 384,
+  "fast-bge-small-en-v1.5": 384,
+  "fast-bge-small-zh-v1.5": 512,
+  "fast-bge-base-en": 768,
+  "fast-bge-base-en-v1.5": 768,
+  "fast-multilingual-e5-large": 1024,
+};
+
+/**
+ * Default embedding provider backed by a fastembed FlagEmbedding model.
+ * The model is lazily initialized on the first embed call.
+ */
+export class FastEmbedProvider implements EmbeddingProvider {
+  readonly modelId: string;
+  readonly dimension: number;
+  private model: Promise<FlagEmbedding> | null = null;
+
+  constructor(private readonly options: FastEmbedProviderOptions = {}) {
+    const model = options.model ?? EmbeddingModel.AllMiniLML6V2;
+    this.modelId =
+      model === EmbeddingModel.CUSTOM
+        ? `custom:${options.modelName ?? "model"}`
+        : String(model);
+
+    const dimension = options.dimension ?? FASTEMBED_DIMENSIONS[this.modelId];
+    if (!dimension) {
+      throw new Error(
+        `dimension is required for the embedding model "${this.modelId}".`
+      );
+    }
+    this.dimension = dimension;
+  }
+
+  /**
+   * Initialize the embedding model if not already initialized.
+   */
+  private getModel(): Promise<FlagEmbedding> {
+    if (!this.model) {
+      const model: Promise<FlagEmbedding> = FlagEmbedding.init({
+        model: this.options.model ?? EmbeddingModel.AllMiniLML6V2,
+        modelAbsoluteDirPath: this.options.modelAbsoluteDirPath,
+        modelName: this.options.modelName,
+        cacheDir: this.options.cacheDir ?? "src/cache",
+        executionProviders: this.options.executionProviders ?? [
+          ExecutionProvider.CPU,
+        ],
+        maxLength: this.options.maxLength ?? 100,
+      }).catch((error: unknown) => {
+        // Permettre une nouvelle tentative au prochain appel
+        this.model = null;
+        throw error;
+      });
+      this.model = model;
+      return model;
+    }
+    return this.model;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [vector] = await this.embedBatch([text], 1);
+    return vector ?? [];
+  }
+
+  async embedBatch(texts: string[], batchSize = 256): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const prefix = this.options.textPrefix ?? "query: ";
+    const model = await this.getModel();
+
+    const vectors: number[][] = [];
+    for await (const batch of model.embed(
+      texts.map((text) => `${prefix}${text}`),
+      batchSize
+    )) {
+      for (const vector of batch) {
+        vectors.push(Array.from(vector));
+      }
+    }
+    return vectors;
   }
-  return embeddingModel;
 }
+
 /**
- * Function that vectorizes a given text using a Flag Embedding model.
+ * Singleton instance of the default embedding provider.
+ */
+let defaultEmbeddingProvider: FastEmbedProvider | null = null;
+
+/**
+ * Returns the default fastembed provider (AllMiniLML6V2 on CPU).
+ */
+export function fse_getDefaultEmbeddingProvider(
+  maxLength: number
+): EmbeddingProvider {
+  if (!defaultEmbeddingProvider) {
+    defaultEmbeddingProvider = new FastEmbedProvider({ maxLength });
+  }
+  return defaultEmbeddingProvider;
+}
+
+/**
+ * fastembed providers created from engine configurations, keyed by options.
+ */
+const fastEmbedProviders = new Map<string, FastEmbedProvider>();
+
+/**
+ * Returns a fastembed provider for the given options, shared between the
+ * engines configured with the same model.
+ */
+export function fse_getFastEmbedProvider(
+  options: FastEmbedProviderOptions
+): EmbeddingProvider {
+  const key = JSON.stringify(options);
+  let provider = fastEmbedProviders.get(key);
+  if (!provider) {
+    provider = new FastEmbedProvider(options);
+    fastEmbedProviders.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Returns the embedding provider configured for an engine, or the default one.
+ */
+export function fse_getEmbeddingProvider(
+  config: FirestoreSearchEngineConfig,
+  maxLength: number
+): EmbeddingProvider {
+  return config.embeddingProvider ?? fse_getDefaultEmbeddingProvider(maxLength);
+}
+
+/**
+ * Function that vectorizes a given text using an embedding provider.
  * @param text The text to be vectorized.
+ * @param maxLength The max length used to initialize the default provider.
+ * @param provider The embedding provider (optional) default fastembed provider.
  * @returns A vector representation of the text.
  */
-
-export async function fse_vectorizeText(text: string, maxLength: number) {
+export async function fse_vectorizeText(
+  text: string,
+  maxLength: number,
+  provider: EmbeddingProvider = fse_getDefaultEmbeddingProvider(maxLength)
+) {
   if (text.length === 0) return [];
-  let documents = [`query: ${text}`];
-  // Ensure the model is initialized
-  const model = await getEmbeddingModel(maxLength);
-  const embeddings = model.embed(documents, 1); //Optional batch size. Defaults to 256
-  const vectors = (await embeddings.next()) as any;
-  const finalVector = vectors?.value.length > 0 ? vectors.value : [];
-  return Array.from(finalVector[0]) as number[];
+  return await provider.embed(text);
 }
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { fse_splitIntoPassages } from "../src/shared/chunkText";
+
+describe("text passages", () => {
+  const text = "the quick brown fox jumps over the lazy dog";
+
+  it("should cut overlapping passages on whitespace", () => {
+    expect(fse_splitIntoPassages(text, 20, 5, 10)).toEqual([
+      { text: "the quick brown fox", offset: 0 },
+      { text: "fox jumps over the", offset: 16 },
+      { text: "the lazy dog", offset: 31 },
+    ]);
+  });
+
+  it("should give the offset of each passage in the text", () => {
+    for (const passage of fse_splitIntoPassages(text, 12, 3, 10)) {
+      expect(text.slice(passage.offset)).toMatch(
+        new RegExp(`^${passage.text}`)
+      );
+    }
+    expect(fse_splitIntoPassages("  one two three", 10, 0, 1)).toEqual([
+      { text: "one two", offset: 2 },
+    ]);
+  });
+
+  it("should stop at maxChunks and keep short texts whole", () => {
+    expect(fse_splitIntoPassages(text, 10, 0, 2)).toHaveLength(2);
+    expect(fse_splitIntoPassages("short", 10, 2, 5)).toEqual([
+      { text: "short", offset: 0 },
+    ]);
+  });
+
+  it("should reject invalid sizes", () => {
+    expect(() => fse_splitIntoPassages(text, 0, 0, 1)).toThrow(
+      "chunkSize must be greater than 0."
+    );
+    expect(() => fse_splitIntoPassages(text, 10, 10, 1)).toThrow(
+      "overlap must be between 0 and chunkSize."
+    );
+  });
+});
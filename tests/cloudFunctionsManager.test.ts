@@ -0,0 +1,132 @@
+import { Timestamp } from "@google-cloud/firestore";
+import { describe, expect, it, vi } from "vitest";
+import {
+  FakeFirestore,
+  fakeEmbeddingProvider,
+  fakeFieldValue,
+} from "./helpers/fakeFirestore";
+
+vi.mock("fastembed", () => ({
+  EmbeddingModel: {},
+  ExecutionProvider: {},
+  FlagEmbedding: {},
+}));
+
+const { CloudFunctionsManager } = await import("../src/CloudFunctionsManager");
+const { validateConfig } = await import("../src/ConfigLoaderSync");
+const { fse_indexDocumentId } = await import("../src/shared/indexDocumentId");
+
+/**
+ * The firebase-functions host returns the handlers
+ */
+const host = ((_options: unknown, handler: unknown) => handler) as any;
+
+function managerOf(db: FakeFirestore) {
+  return new CloudFunctionsManager({
+    firestoreInstance: db as any,
+    fieldValueInstance: fakeFieldValue,
+    firebaseFunctions: {
+      onDocumentCreated: host,
+      onDocumentUpdated: host,
+      onDocumentDeleted: host,
+      onDocumentWritten: host,
+      onCall: host,
+      onRequest: host,
+    },
+  });
+}
+
+const usersInstance = {
+  instanceId: "users",
+  collection: "search_index",
+  embeddingProvider: fakeEmbeddingProvider,
+  skipFirestoreSettings: true,
+};
+
+describe("engine stats", () => {
+  it("should not count the tombstones of deleted documents", async () => {
+    const db = new FakeFirestore();
+    db.documents.set("search_index/a", { indexedDocumentPath: "users/a" });
+    db.documents.set("search_index/b", {
+      indexedDocumentPath: "users/b",
+      _deleted: true,
+    });
+
+    const { utils } = managerOf(db).generateAutoExports([usersInstance]);
+
+    expect((await utils.getEngineStats("users")).totalIndexes).toBe(1);
+    expect((await utils.getAllEnginesStats()).totalIndexes).toBe(1);
+  });
+});
+
+describe("onWrite trigger", () => {
+  const indexPath = `search_index/${fse_indexDocumentId("users/alice")}`;
+  const documentConfig = {
+    indexedKeys: { name: {} },
+    returnedKeys: [],
+    documentsPath: "users/{userId}" as const,
+  };
+
+  function snapshotOf(data: Record<string, any> | undefined, millis: number) {
+    return {
+      ref: { path: "users/alice" },
+      exists: data !== undefined,
+      data: () => data,
+      updateTime: data ? Timestamp.fromMillis(millis) : undefined,
+    };
+  }
+
+  function writeEvent(
+    id: string,
+    before: Record<string, any> | undefined,
+    after: Record<string, any> | undefined,
+    millis: number
+  ) {
+    return {
+      id,
+      time: new Date(millis).toISOString(),
+      data: {
+        before: snapshotOf(before, millis - 1),
+        after: snapshotOf(after, millis),
+      },
+    };
+  }
+
+  it("should require the document configuration", () => {
+    expect(() =>
+      validateConfig({
+        globalConfig: {},
+        searchEngines: {
+          users: { collection: "search_index", triggers: { onWrite: true } },
+        },
+      } as any)
+    ).toThrow(
+      'Configuration du document requise pour les triggers du moteur "users"'
+    );
+  });
+
+  it("should route create, update and delete events", async () => {
+    const db = new FakeFirestore();
+    const functions = managerOf(db).generateFunctions([
+      {
+        ...usersInstance,
+        documentConfig,
+        triggers: { onWrite: true, documentsPath: "users/{userId}" },
+      },
+    ]);
+    const onWrite = functions.searchTriggerUsersOnWrite;
+    expect(Object.keys(functions)).toEqual(["searchTriggerUsersOnWrite"]);
+
+    await onWrite(writeEvent("e1", undefined, { name: "Alice Martin" }, 1000));
+    expect(db.documents.get(indexPath)?.name_original).toBe("alice martin");
+
+    await onWrite(
+      writeEvent("e2", { name: "Alice Martin" }, { name: "Alice Durand" }, 2000)
+    );
+    expect(db.documents.get(indexPath)?.name_original).toBe("alice durand");
+
+    await onWrite(writeEvent("e3", { name: "Alice Durand" }, undefined, 3000));
+    expect(db.documents.get(indexPath)?._deleted).toBe(true);
+    expect(db.documents.get(indexPath)).not.toHaveProperty("name_original");
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  fse_combineVectors,
+  fse_normalizeVector,
+} from "../src/shared/combineVectors";
+
+describe("combined vectors", () => {
+  it("should scale a vector to a unit length", () => {
+    expect(fse_normalizeVector([3, 4])).toEqual([0.6, 0.8]);
+    expect(fse_normalizeVector([0, 0])).toEqual([0, 0]);
+  });
+
+  it("should combine the directions of the vectors by weight", () => {
+    // [10, 0] est normalisé : sa longueur ne l'emporte pas sur [0, 1]
+    const combined = fse_combineVectors([
+      { vector: [10, 0], weight: 1 },
+      { vector: [0, 1], weight: 1 },
+    ]);
+
+    expect(combined[0]).toBeCloseTo(Math.SQRT1_2);
+    expect(combined[1]).toBeCloseTo(Math.SQRT1_2);
+
+    const weighted = fse_combineVectors([
+      { vector: [1, 0], weight: 3 },
+      { vector: [0, 1], weight: 1 },
+    ]);
+    expect(weighted[0]).toBeGreaterThan(weighted[1]);
+  });
+
+  it("should skip empty vectors and zero weights", () => {
+    expect(fse_combineVectors([])).toEqual([]);
+    expect(
+      fse_combineVectors([
+        { vector: [], weight: 1 },
+        { vector: [0, 2], weight: 0 },
+      ])
+    ).toEqual([]);
+  });
+
+  it("should reject vectors of different dimensions", () => {
+    expect(() =>
+      fse_combineVectors([
+        { vector: [1, 0], weight: 1 },
+        { vector: [1, 0, 0], weight: 1 },
+      ])
+    ).toThrow("Cannot combine vectors of dimensions 2 and 3.");
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import {
+  fse_edgeNgrams,
+  fse_highlightPrefixes,
+} from "../src/shared/edgeNgrams";
+
+describe("edge n-grams", () => {
+  it("should list the prefixes of each word between the lengths", () => {
+    expect(fse_edgeNgrams("rue martin", 2, 15)).toEqual([
+      "ru",
+      "rue",
+      "ma",
+      "mar",
+      "mart",
+      "marti",
+      "martin",
+    ]);
+    expect(fse_edgeNgrams("martin marteau", 3, 4)).toEqual(["mar", "mart"]);
+  });
+
+  it("should highlight the longest typed prefix of each word", () => {
+    expect(
+      fse_highlightPrefixes("Rue Martin", ["mar", "mart", "ru"], "<b>", "</b>")
+    ).toBe("<b>Ru</b>e <b>Mart</b>in");
+    expect(fse_highlightPrefixes("Lyon", ["par"], "<b>", "</b>")).toBe("Lyon");
+  });
+});
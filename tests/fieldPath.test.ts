@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  fse_buildReturnedFields,
+  fse_indexFieldName,
+  fse_resolveFieldTexts,
+} from "../src/shared/fieldPath";
+
+describe("field paths", () => {
+  const data = {
+    name: "Alice",
+    address: { city: "Paris" },
+    items: [{ name: "lamp" }, { name: "desk" }, { price: 3 }],
+  };
+
+  it("should resolve nested maps and arrays", () => {
+    expect(fse_resolveFieldTexts(data, "address.city")).toEqual(["Paris"]);
+    expect(fse_resolveFieldTexts(data, "items[].name")).toEqual([
+      "lamp",
+      "desk",
+    ]);
+    expect(fse_indexFieldName("items[].name")).toBe("items__name");
+  });
+
+  it("should build the returned keys and projections", () => {
+    expect(
+      fse_buildReturnedFields("users/a", ["name", "missing"], data)
+    ).toEqual({ indexedDocumentPath: "users/a", name: "Alice" });
+    expect(
+      fse_buildReturnedFields(
+        "users/a",
+        [{ key: "city", project: (doc) => doc.address.city }],
+        data
+      )
+    ).toEqual({ indexedDocumentPath: "users/a", city: "Paris" });
+  });
+
+  it("should skip the keys whose projection throws", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(
+      fse_buildReturnedFields(
+        "users/a",
+        ["name", { key: "zip", project: (doc) => doc.address.zip.code }],
+        data
+      )
+    ).toEqual({ indexedDocumentPath: "users/a", name: "Alice" });
+    expect(warn).toHaveBeenCalledOnce();
+
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,227 @@
+import { Timestamp } from "@google-cloud/firestore";
+
+/**
+ * In-memory Firestore covering what the index classes use: document refs,
+ * == queries, batches, transactions (reads before writes), getAll and bulk
+ * writers. Dates are read back as Timestamps, like Firestore does.
+ */
+const DELETE_FIELD = Symbol("delete");
+const SERVER_TIMESTAMP = Symbol("serverTimestamp");
+
+export const fakeFieldValue = {
+  delete: () => DELETE_FIELD,
+  serverTimestamp: () => SERVER_TIMESTAMP,
+  vector: (values: number[]) => ({ values }),
+} as any;
+
+type Write =
+  | { type: "set"; path: string; data: Record<string, any> }
+  | { type: "update"; path: string; data: Record<string, any> }
+  | { type: "delete"; path: string };
+
+export class FakeFirestore {
+  readonly documents = new Map<string, Record<string, any>>();
+
+  collection(name: string) {
+    return {
+      doc: (id: string) => this.doc(`${name}/${id}`),
+      get: () => this.query(name, []).get(),
+      where: (field: string, op: string, value: unknown) =>
+        this.query(name, [[field, op, value]]),
+    };
+  }
+
+  doc(path: string): any {
+    return {
+      path,
+      id: path.split("/").pop() as string,
+      get: async () => this.snapshot(path),
+      set: async (data: Record<string, any>) =>
+        this.apply([{ type: "set", path, data }]),
+    };
+  }
+
+  async getAll(...refs: any[]) {
+    return refs.map((ref) => this.snapshot(ref.path));
+  }
+
+  batch() {
+    return this.writer();
+  }
+
+  /**
+   * Bulk writer whose writes resolve when they are flushed
+   */
+  bulkWriter() {
+    const pending: { write: Write; resolve: () => void }[] = [];
+    const queue = (write: Write) =>
+      new Promise<void>((resolve) => pending.push({ write, resolve }));
+    const flush = async () => {
+      const flushed = pending.splice(0);
+      this.apply(flushed.map(({ write }) => write));
+      flushed.forEach(({ resolve }) => resolve());
+    };
+    return {
+      set: (ref: any, data: Record<string, any>) =>
+        queue({ type: "set", path: ref.path, data }),
+      update: (ref: any, data: Record<string, any>) =>
+        queue({ type: "update", path: ref.path, data }),
+      delete: (ref: any) => queue({ type: "delete", path: ref.path }),
+      flush,
+      close: flush,
+    };
+  }
+
+  async runTransaction<T>(
+    updateFunction: (transaction: any) => Promise<T>
+  ): Promise<T> {
+    const writes: Write[] = [];
+    const transaction = {
+      get: async (refOrQuery: any) => {
+        if (writes.length > 0) {
+          throw new Error(
+            "Firestore transactions require all reads before writes."
+          );
+        }
+        return refOrQuery.docs
+          ? refOrQuery.get()
+          : this.snapshot(refOrQuery.path);
+      },
+      getAll: async (...refs: any[]) => {
+        if (writes.length > 0) {
+          throw new Error(
+            "Firestore transactions require all reads before writes."
+          );
+        }
+        return this.getAll(...refs);
+      },
+      set: (ref: any, data: Record<string, any>) => {
+        writes.push({ type: "set", path: ref.path, data });
+      },
+      update: (ref: any, data: Record<string, any>) => {
+        writes.push({ type: "update", path: ref.path, data });
+      },
+      delete: (ref: any) => {
+        writes.push({ type: "delete", path: ref.path });
+      },
+    };
+    const result = await updateFunction(transaction);
+    this.apply(writes);
+    return result;
+  }
+
+  private query(name: string, filters: [string, string, unknown][]): any {
+    const get = async () => {
+      const docs = Array.from(this.documents.keys())
+        .filter((path) => path.startsWith(`${name}/`))
+        .filter((path) =>
+          filters.every(
+            ([field, op, value]) =>
+              op === "==" && this.documents.get(path)?.[field] === value
+          )
+        )
+        .map((path) => this.snapshot(path));
+      return { docs, empty: docs.length === 0 };
+    };
+    return {
+      docs: true,
+      get,
+      where: (field: string, op: string, value: unknown) =>
+        this.query(name, [...filters, [field, op, value]]),
+    };
+  }
+
+  private snapshot(path: string) {
+    const stored = this.documents.get(path);
+    return {
+      id: path.split("/").pop() as string,
+      ref: this.doc(path),
+      exists: stored !== undefined,
+      data: () =>
+        stored &&
+        Object.fromEntries(
+          Object.entries(stored).map(([key, value]) => [
+            key,
+            value instanceof Date ? Timestamp.fromDate(value) : value,
+          ])
+        ),
+    };
+  }
+
+  private writer() {
+    const writes: Write[] = [];
+    return {
+      set: (ref: any, data: Record<string, any>) => {
+        writes.push({ type: "set", path: ref.path, data });
+      },
+      update: (ref: any, data: Record<string, any>) => {
+        writes.push({ type: "update", path: ref.path, data });
+      },
+      delete: (ref: any) => {
+        writes.push({ type: "delete", path: ref.path });
+      },
+      commit: async () => {
+        this.apply(writes.splice(0));
+      },
+    };
+  }
+
+  private apply(writes: Write[]) {
+    // Comme Firestore : une mise à jour d'un document absent échoue, rien n'est écrit
+    for (const write of writes) {
+      if (write.type === "update" && !this.documents.has(write.path)) {
+        throw new Error(`5 NOT_FOUND: No document to update: ${write.path}`);
+      }
+    }
+    for (const write of writes) {
+      if (write.type === "delete") {
+        this.documents.delete(write.path);
+        continue;
+      }
+      const next: Record<string, any> =
+        write.type === "update" ? { ...this.documents.get(write.path) } : {};
+      for (const [key, value] of Object.entries(write.data)) {
+        if (value === DELETE_FIELD) delete next[key];
+        else next[key] = value === SERVER_TIMESTAMP ? new Date() : value;
+      }
+      this.documents.set(write.path, next);
+    }
+  }
+}
+
+/**
+ * Embedding provider returning the same vector for every text.
+ */
+export const fakeEmbeddingProvider = {
+  modelId: "fake-model",
+  dimension: 2,
+  embed: async () => [1, 0],
+  embedBatch: async (texts: string[]) => texts.map(() => [1, 0]),
+};
+
+/**
+ * Firestore answering each findNearest with the documents of its vector field,
+ * or failing like a query on a field without vector index.
+ */
+export function fakeSearchFirestore(documents: Record<string, any[]> = {}) {
+  const query: any = {
+    where: () => query,
+    limit: () => ({ get: async () => ({ size: 0, docs: [] }) }),
+    findNearest: ({ vectorField }: { vectorField: string }) => ({
+      get: async () => {
+        if (!documents[vectorField]) {
+          throw Object.assign(new Error("Missing vector index"), { code: 9 });
+        }
+        const docs = documents[vectorField].map((data) => ({
+          data: () => data,
+        }));
+        return { empty: docs.length === 0, docs };
+      },
+    }),
+  };
+  return {
+    settings: () => {},
+    collection: () => ({}),
+    collectionGroup: () => query,
+  } as any;
+}
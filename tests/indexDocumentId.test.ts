@@ -0,0 +1,23 @@
+import { createHash } from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  fse_chunkDocumentId,
+  fse_indexDocumentId,
+} from "../src/shared/indexDocumentId";
+
+describe("index document ids", () => {
+  it("should derive the same id from the same path", () => {
+    const id = fse_indexDocumentId("users/alice");
+
+    expect(id).toBe(createHash("sha1").update("users/alice").digest("hex"));
+    expect(fse_indexDocumentId("users/alice")).toBe(id);
+    expect(fse_indexDocumentId("users/bob")).not.toBe(id);
+    expect(id).not.toContain("/");
+  });
+
+  it("should derive the chunk ids from the index id, field and index", () => {
+    expect(fse_chunkDocumentId("abc", { field: "bio", index: 2 })).toBe(
+      "abc__bio__2"
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { Timestamp } from "@google-cloud/firestore";
+import { describe, expect, it } from "vitest";
+import {
+  fse_isOutdatedIndex,
+  fse_isReplayedEvent,
+  fse_sourceUpdateTime,
+} from "../src/shared/indexVersion";
+
+describe("index version guards", () => {
+  const indexData = {
+    _source_update_time: Timestamp.fromMillis(2000),
+    _last_event_id: "event-1",
+  };
+
+  it("should detect an index written from a more recent source", () => {
+    expect(fse_isOutdatedIndex(indexData, new Date(1000))).toBe(true);
+    expect(fse_isOutdatedIndex(indexData, new Date(2000))).toBe(false);
+    expect(fse_isOutdatedIndex(indexData, new Date(3000))).toBe(false);
+  });
+
+  it("should not guard without a known version", () => {
+    expect(fse_isOutdatedIndex(indexData)).toBe(false);
+    expect(fse_isOutdatedIndex(undefined, new Date(1000))).toBe(false);
+    expect(fse_isOutdatedIndex({}, new Date(1000))).toBe(false);
+    expect(fse_isReplayedEvent(indexData)).toBe(false);
+    expect(fse_isReplayedEvent(undefined, "event-1")).toBe(false);
+  });
+
+  it("should detect a replayed event", () => {
+    expect(fse_isReplayedEvent(indexData, "event-1")).toBe(true);
+    expect(fse_isReplayedEvent(indexData, "event-2")).toBe(false);
+  });
+
+  it("should take the snapshot update time before the event time", () => {
+    const eventTime = "2024-01-01T00:00:00.000Z";
+
+    expect(
+      fse_sourceUpdateTime(
+        { updateTime: Timestamp.fromMillis(5000) },
+        eventTime
+      )
+    ).toEqual(new Date(5000));
+    expect(fse_sourceUpdateTime({}, eventTime)).toEqual(new Date(eventTime));
+    expect(fse_sourceUpdateTime({})).toBeUndefined();
+  });
+});
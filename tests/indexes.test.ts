@@ -0,0 +1,248 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  FakeFirestore,
+  fakeEmbeddingProvider,
+  fakeFieldValue,
+} from "./helpers/fakeFirestore";
+
+vi.mock("fastembed", () => ({
+  EmbeddingModel: {},
+  ExecutionProvider: {},
+  FlagEmbedding: {},
+}));
+
+const { Indexes } = await import("../src/indexes/Indexes");
+const { fse_indexDocumentId } = await import("../src/shared/indexDocumentId");
+
+const config = {
+  collection: "search_index",
+  embeddingProvider: fakeEmbeddingProvider,
+};
+const indexId = fse_indexDocumentId("users/alice");
+
+function indexesOf(
+  db: FakeFirestore,
+  props: {
+    name?: string;
+    sourceUpdateTime?: Date;
+    sourceEventId?: string;
+  } & Record<string, any>,
+  overrides: Record<string, any> = {}
+) {
+  const { name, sourceUpdateTime, sourceEventId, ...returnedFields } = props;
+  return new Indexes(
+    db as any,
+    fakeFieldValue,
+    { ...config, ...overrides } as any,
+    {
+      inputFields: { name: {}, bio: {} },
+      returnedFields: {
+        indexedDocumentPath: "users/alice",
+        ...(name ? { name } : {}),
+        ...returnedFields,
+      },
+      sourceUpdateTime,
+      sourceEventId,
+    }
+  );
+}
+
+describe("index deletion", () => {
+  it("should replace the index document with a tombstone", async () => {
+    const db = new FakeFirestore();
+    await indexesOf(db, {
+      name: "Alice",
+      sourceUpdateTime: new Date(1000),
+    }).updateIndex();
+
+    await indexesOf(db, {
+      sourceUpdateTime: new Date(2000),
+      sourceEventId: "delete-1",
+    }).deleteIndex();
+
+    const tombstone = db.documents.get(`search_index/${indexId}`);
+    expect(tombstone?._deleted).toBe(true);
+    expect(tombstone?._expires_at.getTime()).toBeGreaterThan(
+      Date.now() + 29 * 24 * 3600 * 1000
+    );
+    expect(tombstone?._source_update_time).toEqual(new Date(2000));
+    expect(tombstone?._last_event_id).toBe("delete-1");
+    expect(tombstone).not.toHaveProperty("name");
+    expect(tombstone).not.toHaveProperty("_vector_name");
+  });
+
+  it("should skip an update older than the deletion", async () => {
+    const db = new FakeFirestore();
+    await indexesOf(db, {
+      name: "Alice",
+      sourceUpdateTime: new Date(1000),
+    }).updateIndex();
+    await indexesOf(db, { sourceUpdateTime: new Date(3000) }).deleteIndex();
+
+    const updated = await indexesOf(db, {
+      name: "Alice B.",
+      sourceUpdateTime: new Date(2000),
+    }).updateIndex();
+    const patched = await indexesOf(db, {
+      name: "Alice B.",
+      sourceUpdateTime: new Date(2000),
+    }).patchReturnedFields({ name: "Alice" });
+
+    expect(updated).toBe(false);
+    expect(patched).toBe(false);
+    expect(db.documents.get(`search_index/${indexId}`)?._deleted).toBe(true);
+  });
+
+  it("should expire the tombstone after tombstoneTtlSeconds", async () => {
+    const db = new FakeFirestore();
+    const ttl = { tombstoneTtlSeconds: 60 };
+    await indexesOf(
+      db,
+      { name: "Alice", sourceUpdateTime: new Date(1000) },
+      ttl
+    ).updateIndex();
+
+    await indexesOf(
+      db,
+      { sourceUpdateTime: new Date(2000) },
+      ttl
+    ).deleteIndex();
+
+    const expiresAt = db.documents.get(`search_index/${indexId}`)?._expires_at;
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 60 * 1000);
+  });
+
+  it("should not write a tombstone for a document never indexed", async () => {
+    const db = new FakeFirestore();
+
+    await indexesOf(db, {
+      sourceUpdateTime: new Date(1000),
+      sourceEventId: "delete-1",
+    }).deleteIndex();
+
+    expect(db.documents.size).toBe(0);
+  });
+
+  it("should index again a document re-created after the deletion", async () => {
+    const db = new FakeFirestore();
+    await indexesOf(db, {
+      name: "Alice",
+      sourceUpdateTime: new Date(1000),
+    }).updateIndex();
+    await indexesOf(db, { sourceUpdateTime: new Date(2000) }).deleteIndex();
+
+    const updated = await indexesOf(db, {
+      name: "Alice",
+      sourceUpdateTime: new Date(3000),
+    }).updateIndex();
+
+    const index = db.documents.get(`search_index/${indexId}`);
+    expect(updated).toBe(true);
+    expect(index).not.toHaveProperty("_deleted");
+    expect(index?.name).toBe("Alice");
+  });
+
+  it("should delete the index document when the source version is unknown", async () => {
+    const db = new FakeFirestore();
+    await indexesOf(db, { name: "Alice" }).updateIndex();
+
+    await indexesOf(db, {}).deleteIndex();
+
+    expect(db.documents.size).toBe(0);
+  });
+});
+
+describe("returned fields patch", () => {
+  const bio =
+    "Alice writes about search engines, vectors and Firestore indexes every week.";
+  const chunking = { chunking: { chunkSize: 30, overlap: 5 } };
+
+  async function indexAlice(db: FakeFirestore) {
+    await indexesOf(
+      db,
+      { name: "Alice", bio, city: "Paris", sourceUpdateTime: new Date(1000) },
+      chunking
+    ).updateIndex();
+    return db.documents.get(`search_index/${indexId}`)?._chunk_ids as string[];
+  }
+
+  it("should patch the index and its passages without re-embedding", async () => {
+    const db = new FakeFirestore();
+    const chunkIds = await indexAlice(db);
+    const embedBatch = vi.spyOn(fakeEmbeddingProvider, "embedBatch");
+
+    const patched = await indexesOf(
+      db,
+      { name: "Alice", bio, role: "admin", sourceUpdateTime: new Date(2000) },
+      chunking
+    ).patchReturnedFields({ name: "Alice", bio, city: "Paris" });
+
+    const index = db.documents.get(`search_index/${indexId}`);
+    expect(patched).toBe(true);
+    expect(embedBatch).not.toHaveBeenCalled();
+    expect(index?.role).toBe("admin");
+    expect(index).not.toHaveProperty("city");
+    expect(index?._vector_name).toEqual({ values: [1, 0] });
+    expect(index?._source_update_time).toEqual(new Date(2000));
+    expect(chunkIds.length).toBeGreaterThan(0);
+    for (const id of chunkIds) {
+      const chunk = db.documents.get(`search_index/${id}`);
+      expect(chunk?.role).toBe("admin");
+      expect(chunk).not.toHaveProperty("city");
+    }
+    embedBatch.mockRestore();
+  });
+
+  it("should skip an outdated event", async () => {
+    const db = new FakeFirestore();
+    await indexAlice(db);
+
+    const patched = await indexesOf(
+      db,
+      { name: "Alice", bio, city: "Lyon", sourceUpdateTime: new Date(500) },
+      chunking
+    ).patchReturnedFields({ name: "Alice", bio, city: "Paris" });
+
+    expect(patched).toBe(false);
+    expect(db.documents.get(`search_index/${indexId}`)?.city).toBe("Paris");
+  });
+
+  it("should leave out a missing passage", async () => {
+    const db = new FakeFirestore();
+    const [missingId, ...chunkIds] = await indexAlice(db);
+    db.documents.delete(`search_index/${missingId}`);
+
+    const patched = await indexesOf(
+      db,
+      { name: "Alice", bio, city: "Lyon", sourceUpdateTime: new Date(2000) },
+      chunking
+    ).patchReturnedFields({ name: "Alice", bio, city: "Paris" });
+
+    expect(patched).toBe(true);
+    expect(db.documents.has(`search_index/${missingId}`)).toBe(false);
+    for (const id of chunkIds) {
+      expect(db.documents.get(`search_index/${id}`)?.city).toBe("Lyon");
+    }
+  });
+
+  it("should derive the tenant id again from the returned fields", async () => {
+    const db = new FakeFirestore();
+    const tenant = { tenant: { sourceField: "orgId" } };
+    await indexesOf(
+      db,
+      { name: "Alice", orgId: "org-a", sourceUpdateTime: new Date(1000) },
+      tenant
+    ).updateIndex();
+
+    await indexesOf(
+      db,
+      { name: "Alice", orgId: "org-b", sourceUpdateTime: new Date(2000) },
+      tenant
+    ).patchReturnedFields({ name: "Alice", orgId: "org-a" });
+
+    const index = db.documents.get(`search_index/${indexId}`);
+    expect(index?.orgId).toBe("org-b");
+    expect(index?._tenant_id).toBe("org-b");
+  });
+});
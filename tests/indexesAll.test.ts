@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  FakeFirestore,
+  fakeEmbeddingProvider,
+  fakeFieldValue,
+} from "./helpers/fakeFirestore";
+
+vi.mock("fastembed", () => ({
+  EmbeddingModel: {},
+  ExecutionProvider: {},
+  FlagEmbedding: {},
+}));
+
+const { IndexesAll } = await import("../src/indexes/IndexesAll");
+const { fse_indexDocumentId } = await import("../src/shared/indexDocumentId");
+
+const legacyPath = "search_index/legacy-random-id";
+const indexPath = `search_index/${fse_indexDocumentId("users/alice")}`;
+
+function indexAll(db: FakeFirestore, embeddingProvider: any) {
+  return new IndexesAll(db as any, fakeFieldValue, {
+    collection: "search_index",
+    embeddingProvider,
+  } as any).execute({
+    documentProps: { indexedKeys: { name: {} }, returnedKey: [] },
+    documentsToIndexes: [
+      { indexedDocumentPath: "users/alice", name: "Alice Martin" },
+    ],
+  });
+}
+
+function dbWithLegacyIndex() {
+  const db = new FakeFirestore();
+  db.documents.set(legacyPath, {
+    indexedDocumentPath: "users/alice",
+    name: "alice martin",
+  });
+  return db;
+}
+
+describe("bulk indexing of legacy indexes", () => {
+  it("should replace the random-id index with the deterministic one", async () => {
+    const db = dbWithLegacyIndex();
+
+    await indexAll(db, fakeEmbeddingProvider);
+
+    expect(db.documents.has(indexPath)).toBe(true);
+    expect(db.documents.has(legacyPath)).toBe(false);
+  });
+
+  it("should keep the random-id index when embedding fails", async () => {
+    const db = dbWithLegacyIndex();
+
+    await indexAll(db, {
+      ...fakeEmbeddingProvider,
+      embedBatch: async () => {
+        throw new Error("Embedding service unavailable");
+      },
+    });
+
+    expect(db.documents.has(indexPath)).toBe(false);
+    expect(db.documents.has(legacyPath)).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  fse_damerauLevenshteinDistance,
+  fse_levenshteinDistance,
+  fse_normalizedSimilarity,
+} from "../src/shared/levenshteinDistance";
+
+describe("edit distances", () => {
+  it("should compute the Levenshtein distance", () => {
+    expect(fse_levenshteinDistance("kitten", "sitting")).toBe(3);
+    expect(fse_levenshteinDistance("", "abc")).toBe(3);
+    expect(fse_levenshteinDistance("abc", "abc")).toBe(0);
+    expect(fse_levenshteinDistance("teh", "the")).toBe(2);
+  });
+
+  it("should count a transposition as one edit with Damerau", () => {
+    expect(fse_damerauLevenshteinDistance("teh", "the")).toBe(1);
+    expect(fse_damerauLevenshteinDistance("martin", "mratin")).toBe(1);
+    expect(fse_damerauLevenshteinDistance("kitten", "sitting")).toBe(3);
+  });
+
+  it("should stop above the max distance", () => {
+    expect(fse_levenshteinDistance("kitten", "sitting", 1)).toBe(2);
+    expect(fse_levenshteinDistance("a", "abcdef", 2)).toBe(3);
+    expect(fse_damerauLevenshteinDistance("teh", "the", 1)).toBe(1);
+  });
+
+  it("should normalize the similarity between 0 and 1", () => {
+    expect(fse_normalizedSimilarity("", "")).toBe(1);
+    expect(fse_normalizedSimilarity("teh", "the")).toBeCloseTo(2 / 3);
+    expect(
+      fse_normalizedSimilarity("teh", "the", { transpositions: false })
+    ).toBeCloseTo(1 / 3);
+    expect(fse_normalizedSimilarity("abc", "xyz")).toBe(0);
+    expect(
+      fse_normalizedSimilarity("kitten", "sitting", { minSimilarity: 0.9 })
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { fse_lexicalTokens, fse_tokenize } from "../src/shared/lexical";
+
+describe("lexical tokens", () => {
+  it("should split a text into lowercase words of 2 characters or more", () => {
+    expect(fse_tokenize("Rue d'Alésia, 75014 Paris")).toEqual([
+      "rue",
+      "alésia",
+      "75014",
+      "paris",
+    ]);
+  });
+
+  it("should list the words before their trigrams", () => {
+    expect(fse_lexicalTokens("SKU-1234 abc")).toEqual([
+      "sku",
+      "1234",
+      "abc",
+      "123",
+      "234",
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  fse_fuseFieldResults,
+  fse_validateFusionStrategy,
+} from "../src/shared/multiFieldFusion";
+import type { FieldSearchResults } from "../src/shared/multiFieldFusion";
+
+describe("multi-field fusion", () => {
+  const fieldResults: FieldSearchResults[] = [
+    {
+      field: "name",
+      weight: 1,
+      results: [
+        { indexedDocumentPath: "users/a", _relevanceScore: 0.9 },
+        { indexedDocumentPath: "users/b", _relevanceScore: 0.5 },
+      ],
+    },
+    {
+      field: "bio",
+      weight: 0.5,
+      results: [{ indexedDocumentPath: "users/b", _relevanceScore: 0.8 }],
+    },
+  ];
+
+  it("should keep the best weighted score with max", () => {
+    const fused = fse_fuseFieldResults(fieldResults, "max", 10);
+
+    expect(fused.map((result) => result.indexedDocumentPath)).toEqual([
+      "users/a",
+      "users/b",
+    ]);
+    expect(fused[1]._relevanceScore).toBeCloseTo(0.5);
+    expect(fused[1]._matchedFields).toHaveLength(2);
+  });
+
+  it("should add the weighted scores with weightedSum", () => {
+    const fused = fse_fuseFieldResults(fieldResults, "weightedSum", 10);
+
+    expect(fused[0].indexedDocumentPath).toBe("users/a");
+    expect(fused[1]._relevanceScore).toBeCloseTo(0.5 + 0.4);
+  });
+
+  it("should average the scores by weight with weightedMean", () => {
+    const fused = fse_fuseFieldResults(fieldResults, "weightedMean", 10);
+
+    expect(fused[1]._relevanceScore).toBeCloseTo((0.5 + 0.8 * 0.5) / 1.5);
+  });
+
+  it("should rank documents matched by several fields first with rrf", () => {
+    const fused = fse_fuseFieldResults(fieldResults, "rrf", 10);
+
+    expect(fused[0].indexedDocumentPath).toBe("users/b");
+    expect(fused[0]._fieldMatch).toBe("name");
+  });
+
+  it("should fuse the signal scores of the ranked results", () => {
+    const fused = fse_fuseFieldResults(
+      [
+        {
+          field: "name",
+          weight: 1,
+          results: [
+            {
+              indexedDocumentPath: "users/a",
+              _relevanceScore: 0.9,
+              _score: 0.4,
+            },
+            {
+              indexedDocumentPath: "users/b",
+              _relevanceScore: 0.8,
+              _score: 0.7,
+            },
+          ],
+        },
+      ],
+      "max",
+      10
+    );
+
+    expect(fused.map((result) => result.indexedDocumentPath)).toEqual([
+      "users/b",
+      "users/a",
+    ]);
+    expect(fused[0]._score).toBeCloseTo(0.7);
+    expect(fused[0]._relevanceScore).toBeCloseTo(0.7);
+  });
+
+  it("should reject unknown strategies", () => {
+    expect(() => fse_validateFusionStrategy("weigthedSum")).toThrow(
+      'Unknown fusion strategy "weigthedSum"'
+    );
+    expect(() =>
+      fse_fuseFieldResults(fieldResults, "weigthedSum" as any, 10)
+    ).toThrow('Unknown fusion strategy "weigthedSum"');
+    expect(() => fse_validateFusionStrategy("rrf")).not.toThrow();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  fakeEmbeddingProvider,
+  fakeFieldValue,
+  fakeSearchFirestore,
+} from "./helpers/fakeFirestore";
+
+vi.mock("fastembed", () => ({
+  EmbeddingModel: {},
+  ExecutionProvider: {},
+  FlagEmbedding: {},
+}));
+
+const { FirestoreSearchEngine } = await import("../src/FirestoreSearchEngine");
+
+function engineOf(documents: Record<string, any[]>, config = {}) {
+  return new FirestoreSearchEngine(
+    fakeSearchFirestore(documents),
+    {
+      collection: "search_index",
+      embeddingProvider: fakeEmbeddingProvider,
+      returnedKeys: ["name"],
+      queryCache: { enabled: false },
+      ...config,
+    } as any,
+    fakeFieldValue
+  );
+}
+
+const alice = {
+  indexedDocumentPath: "users/alice",
+  name: "Alice",
+  distance: 0.1,
+  _embedding_model: "fake-model",
+  _embedding_dimension: 2,
+};
+
+describe("multi-field search errors", () => {
+  it("should throw an invalid filter like the single-field search", async () => {
+    const engine = engineOf({ _vector_name: [alice] });
+
+    await expect(
+      engine.search({
+        fieldValue: "alice",
+        fieldWeights: { name: 1 },
+        filters: [{ field: "secret", op: "==", value: 1 }],
+      })
+    ).rejects.toThrow("not a returned key");
+  });
+
+  it("should throw when the tenant is missing", async () => {
+    const engine = engineOf(
+      { _vector_name: [alice] },
+      { tenant: { pathSegment: 1 } }
+    );
+
+    await expect(
+      engine.search({ fieldValue: "alice", fieldWeights: { name: 1 } })
+    ).rejects.toThrow("tenantId is required");
+  });
+
+  it("should throw an embedding model mismatch", async () => {
+    const engine = engineOf(
+      { _vector_name: [{ ...alice, _embedding_model: "other-model" }] },
+      { modelMismatch: "error" }
+    );
+
+    await expect(
+      engine.search({ fieldValue: "alice", fieldWeights: { name: 1 } })
+    ).rejects.toThrow("Re-index the collection");
+  });
+
+  it("should keep the results of the other fields when a field query fails", async () => {
+    const engine = engineOf({ _vector_name: [alice] });
+
+    const results = await engine.search({
+      fieldValue: "alice",
+      fieldWeights: { name: 1, bio: 1 },
+    });
+
+    expect(results.map((result) => result.indexedDocumentPath)).toEqual([
+      "users/alice",
+    ]);
+  });
+});
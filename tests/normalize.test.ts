@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  fse_createNormalizer,
+  fse_foldAccents,
+  fse_normalizeText,
+} from "../src/shared/normalize";
+
+describe("text normalization", () => {
+  it("should only lowercase and trim without configuration", () => {
+    expect(fse_normalizeText("  Élise, Paris ")).toBe("élise, paris");
+  });
+
+  it("should fold accents and ligatures", () => {
+    expect(fse_foldAccents("Élise Cœur Straße")).toBe("Elise Coeur Strasse");
+  });
+
+  it("should run the chain in order", () => {
+    const normalize = fse_createNormalizer({
+      dictionary: { st: "saint", "st jean": "saint-jean" },
+      stopwords: "fr",
+      custom: [(text) => text.replace(/saint/g, "st")],
+    });
+
+    // Ponctuation retirée, expression la plus longue remplacée d'abord
+    expect(normalize("Rue de St-Jean, Lyon")).toBe("rue st jean lyon");
+    expect(normalize("Église St Pierre")).toBe("eglise st pierre");
+  });
+
+  it("should keep a text made only of stopwords", () => {
+    const normalize = fse_createNormalizer({ stopwords: ["the", "of"] });
+
+    expect(normalize("The Lord of the Rings")).toBe("lord rings");
+    expect(normalize("The of")).toBe("the of");
+  });
+
+  it("should keep accents and punctuation when disabled", () => {
+    expect(
+      fse_normalizeText("Élise, Paris", {
+        foldAccents: false,
+        stripPunctuation: false,
+      })
+    ).toBe("élise, paris");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  fse_decodePageToken,
+  fse_encodePageToken,
+  fse_searchFingerprint,
+} from "../src/shared/pageToken";
+
+describe("page tokens", () => {
+  const fingerprint = fse_searchFingerprint({ query: "paris", limit: 10 });
+
+  it("should decode the offset of a token issued for the same search", () => {
+    const token = fse_encodePageToken(20, fingerprint);
+
+    expect(fse_decodePageToken(token, fingerprint)).toBe(20);
+    expect(fse_decodePageToken(undefined, fingerprint)).toBe(0);
+  });
+
+  it("should give another fingerprint to another search", () => {
+    expect(fse_searchFingerprint({ query: "paris", limit: 10 })).toBe(
+      fingerprint
+    );
+    expect(fse_searchFingerprint({ query: "lyon", limit: 10 })).not.toBe(
+      fingerprint
+    );
+  });
+
+  it("should reject a token issued for another search or malformed", () => {
+    const token = fse_encodePageToken(
+      20,
+      fse_searchFingerprint({ query: "lyon", limit: 10 })
+    );
+
+    expect(() => fse_decodePageToken(token, fingerprint)).toThrow(
+      "pageToken is invalid or was issued for another search."
+    );
+    expect(() => fse_decodePageToken("not-a-token", fingerprint)).toThrow(
+      "pageToken is invalid"
+    );
+    expect(() =>
+      fse_decodePageToken(fse_encodePageToken(-1, fingerprint), fingerprint)
+    ).toThrow("pageToken is invalid");
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import {
+  fse_phoneticKeys,
+  fse_soundex,
+  fse_soundex2,
+} from "../src/shared/phonetic";
+
+describe("phonetic keys", () => {
+  it("should encode words with the American Soundex", () => {
+    expect(fse_soundex("Robert")).toBe("R163");
+    expect(fse_soundex("Rupert")).toBe("R163");
+    expect(fse_soundex("Ashcraft")).toBe("A261");
+    expect(fse_soundex("Tymczak")).toBe("T522");
+  });
+
+  it("should give the same Soundex2 code to French homophones", () => {
+    expect(fse_soundex2("Martin")).toBe("MRTN");
+    expect(fse_soundex2("Phillipe")).toBe(fse_soundex2("Filipe"));
+    expect(fse_soundex2("Guillaume")).toBe(fse_soundex2("Guilaume"));
+    expect(fse_soundex2("Éloïse")).toBe(fse_soundex2("Eloise"));
+    expect(fse_soundex2("Dupond")).toBe(fse_soundex2("Dupont"));
+  });
+
+  it("should prefix the keys by algorithm and skip numbers", () => {
+    expect(fse_phoneticKeys("12 rue Martin", ["soundex", "soundex2"])).toEqual([
+      "sx:R000",
+      "s2:R",
+      "sx:M635",
+      "s2:MRTN",
+    ]);
+  });
+});
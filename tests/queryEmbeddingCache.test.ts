@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import { QueryEmbeddingCache } from "../src/shared/queryEmbeddingCache";
+import { FakeFirestore } from "./helpers/fakeFirestore";
+
+function providerOf(modelId = "model-a") {
+  return {
+    modelId,
+    dimension: 1,
+    embed: vi.fn(async (text: string) => [text.length]),
+    embedBatch: async (texts: string[]) => texts.map((text) => [text.length]),
+  };
+}
+
+describe("query embedding cache", () => {
+  it("should embed a query once and count hits and misses", async () => {
+    const cache = new QueryEmbeddingCache(new FakeFirestore() as any);
+    const provider = providerOf();
+
+    expect(await cache.getOrEmbed("  Paris  Hotel ", provider)).toEqual([11]);
+    expect(await cache.getOrEmbed("paris hotel", provider)).toEqual([11]);
+
+    expect(provider.embed).toHaveBeenCalledOnce();
+    expect(provider.embed).toHaveBeenCalledWith("paris hotel");
+    expect(cache.getStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      persistentHits: 0,
+      size: 1,
+    });
+  });
+
+  it("should key the vectors by model", async () => {
+    const cache = new QueryEmbeddingCache(new FakeFirestore() as any);
+
+    await cache.getOrEmbed("paris", providerOf("model-a"));
+    await cache.getOrEmbed("paris", providerOf("model-b"));
+
+    expect(cache.getStats()).toMatchObject({ misses: 2, size: 2 });
+  });
+
+  it("should evict the least recently used query", async () => {
+    const cache = new QueryEmbeddingCache(new FakeFirestore() as any, {
+      maxSize: 2,
+    });
+    const provider = providerOf();
+
+    await cache.getOrEmbed("alpha", provider);
+    await cache.getOrEmbed("beta", provider);
+    await cache.getOrEmbed("alpha", provider);
+    await cache.getOrEmbed("gamma", provider);
+    await cache.getOrEmbed("alpha", provider);
+    await cache.getOrEmbed("beta", provider);
+
+    expect(provider.embed.mock.calls.map(([text]) => text)).toEqual([
+      "alpha",
+      "beta",
+      "gamma",
+      "beta",
+    ]);
+    expect(cache.getStats()).toMatchObject({ hits: 2, misses: 4, size: 2 });
+  });
+
+  it("should reuse a vector persisted by another instance", async () => {
+    const db = new FakeFirestore();
+    const config = { persistentCollection: "query_cache" };
+    await new QueryEmbeddingCache(db as any, config).getOrEmbed(
+      "paris",
+      providerOf()
+    );
+    const provider = providerOf();
+    const cache = new QueryEmbeddingCache(db as any, config);
+
+    expect(await cache.getOrEmbed("paris", provider)).toEqual([5]);
+    expect(await cache.getOrEmbed("paris", provider)).toEqual([5]);
+
+    expect(provider.embed).not.toHaveBeenCalled();
+    expect(cache.getStats()).toEqual({
+      hits: 1,
+      misses: 0,
+      persistentHits: 1,
+      size: 1,
+    });
+  });
+
+  it("should embed again a persisted vector that expired", async () => {
+    const db = new FakeFirestore();
+    const config = { persistentCollection: "query_cache", ttlSeconds: -1 };
+    await new QueryEmbeddingCache(db as any, config).getOrEmbed(
+      "paris",
+      providerOf()
+    );
+    const provider = providerOf();
+    const cache = new QueryEmbeddingCache(db as any, config);
+
+    await cache.getOrEmbed("paris", provider);
+
+    expect(provider.embed).toHaveBeenCalledOnce();
+    expect(cache.getStats()).toMatchObject({ persistentHits: 0, misses: 1 });
+  });
+});
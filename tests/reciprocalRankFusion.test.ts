@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import {
+  FSE_RRF_K,
+  fse_reciprocalRankFusion,
+} from "../src/shared/reciprocalRankFusion";
+
+describe("reciprocal rank fusion", () => {
+  it("should rank first the items ranked well by several lists", () => {
+    const fused = fse_reciprocalRankFusion(
+      [
+        ["a", "b", "c"],
+        ["b", "c"],
+      ],
+      (item) => item
+    );
+
+    expect(fused.map((entry) => entry.key)).toEqual(["b", "c", "a"]);
+    expect(fused[0].score).toBeCloseTo(
+      1 / (FSE_RRF_K + 2) + 1 / (FSE_RRF_K + 1)
+    );
+    expect(fused[2].items).toEqual(["a", undefined]);
+  });
+
+  it("should count an item once per list", () => {
+    const fused = fse_reciprocalRankFusion([["a", "a"]], (item) => item, 0);
+
+    expect(fused).toEqual([{ key: "a", score: 1, items: ["a"] }]);
+  });
+});
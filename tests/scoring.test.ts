@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { fse_rankResults } from "../src/shared/rankResults";
+import {
+  FSE_DEFAULT_SCORING_WEIGHTS,
+  fse_scoreResult,
+} from "../src/shared/scoring";
+
+/**
+ * Weights keeping a single signal
+ */
+function only(signal: keyof typeof FSE_DEFAULT_SCORING_WEIGHTS) {
+  return {
+    vectorSimilarity: 0,
+    editDistance: 0,
+    prefixMatch: 0,
+    exactToken: 0,
+    fieldWeight: 0,
+    [signal]: 1,
+  };
+}
+
+describe("result scoring", () => {
+  it("should clamp the vector similarity between 0 and 1", () => {
+    const weights = only("vectorSimilarity");
+
+    expect(
+      fse_scoreResult({ _relevanceScore: 0.8 }, "paris", weights).score
+    ).toBeCloseTo(0.8);
+    expect(
+      fse_scoreResult({ _relevanceScore: 1.4 }, "paris", weights).score
+    ).toBe(1);
+    expect(
+      fse_scoreResult({ _relevanceScore: -0.2 }, "paris", weights).score
+    ).toBe(0);
+  });
+
+  it("should score the edit similarity with the text or its closest word", () => {
+    const weights = only("editDistance");
+
+    expect(
+      fse_scoreResult({ fieldValue: "paris" }, "paris", weights).score
+    ).toBe(1);
+    expect(
+      fse_scoreResult({ fieldValue: "hotel paris" }, "pari", weights).score
+    ).toBeCloseTo(0.8);
+    expect(
+      fse_scoreResult({ fieldValue: "london" }, "paris", weights).score
+    ).toBeLessThan(0.5);
+  });
+
+  it("should score a prefix of the text above a prefix of one of its words", () => {
+    const weights = only("prefixMatch");
+
+    expect(
+      fse_scoreResult({ fieldValue: "paris nord" }, "par", weights).score
+    ).toBe(1);
+    expect(
+      fse_scoreResult({ fieldValue: "gare de paris" }, "par", weights).score
+    ).toBe(0.5);
+    expect(fse_scoreResult({ fieldValue: "lyon" }, "par", weights).score).toBe(
+      0
+    );
+  });
+
+  it("should score the share of the query words found in the text", () => {
+    const weights = only("exactToken");
+
+    expect(
+      fse_scoreResult(
+        { fieldValue: "hotel paris nord" },
+        "hotel paris",
+        weights
+      ).score
+    ).toBe(1);
+    expect(
+      fse_scoreResult({ fieldValue: "hotel lyon" }, "hotel paris", weights)
+        .score
+    ).toBe(0.5);
+  });
+
+  it("should read the field weight of the searched field", () => {
+    const result = {
+      name_original: "paris",
+      bio_original: "a city",
+      _field_weights: { name: 0.6, bio: 0.2 },
+    };
+
+    const breakdown = fse_scoreResult(result, "paris", only("fieldWeight"));
+
+    expect(breakdown.field).toBe("name");
+    expect(breakdown.score).toBeCloseTo(0.6);
+    expect(
+      fse_scoreResult(
+        { ...result, _fieldWeight: 0.9 },
+        "paris",
+        only("fieldWeight")
+      ).score
+    ).toBeCloseTo(0.9);
+  });
+
+  it("should compare the searched field when one is given", () => {
+    const breakdown = fse_scoreResult(
+      { name_original: "lyon", city_original: "paris" },
+      "paris",
+      only("exactToken"),
+      "name"
+    );
+
+    expect(breakdown.text).toBe("lyon");
+    expect(breakdown.score).toBe(0);
+  });
+
+  it("should compute the weighted mean of the signals", () => {
+    const breakdown = fse_scoreResult(
+      { fieldValue: "paris", _relevanceScore: 0.5 },
+      "paris"
+    );
+
+    expect(breakdown.weights).toEqual(FSE_DEFAULT_SCORING_WEIGHTS);
+    expect(breakdown.score).toBeCloseTo(0.7 * 0.5 + 0.15 + 0.05 + 0.1);
+  });
+
+  it("should override the default weights", () => {
+    const breakdown = fse_scoreResult(
+      { fieldValue: "paris", _relevanceScore: 0.5 },
+      "paris",
+      { vectorSimilarity: 1, editDistance: 1 }
+    );
+
+    expect(breakdown.weights).toMatchObject({
+      vectorSimilarity: 1,
+      editDistance: 1,
+      prefixMatch: 0.05,
+    });
+    expect(breakdown.score).toBeCloseTo((0.5 + 1 + 0.05 + 0.1) / 2.15);
+  });
+
+  it("should rank the results by score", () => {
+    const ranked = fse_rankResults(
+      [
+        { fieldValue: "lyon", _relevanceScore: 0.9 },
+        { fieldValue: "paris", _relevanceScore: 0.8 },
+      ],
+      "paris",
+      { weights: { vectorSimilarity: 0.5, exactToken: 0.5 }, debug: true }
+    );
+
+    expect(ranked.map((result) => result.fieldValue)).toEqual([
+      "paris",
+      "lyon",
+    ]);
+    expect(ranked[0]._scoreBreakdown.signals.exactToken).toBe(1);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  fse_validateSearchFilters,
+  fse_withTenantFilter,
+} from "../src/shared/searchFilters";
+import { FSE_TENANT_FIELD } from "../src/shared/tenant";
+
+describe("search filters", () => {
+  const returnedKeys = ["category", "price", "tags"];
+
+  it("should accept filters on returned keys", () => {
+    expect(() =>
+      fse_validateSearchFilters(
+        [
+          { field: "category", op: "==", value: "books" },
+          { field: "price", op: "<", value: 20 },
+          { field: "tags", op: "array-contains", value: "new" },
+        ],
+        returnedKeys
+      )
+    ).not.toThrow();
+  });
+
+  it("should reject filters on other fields and unknown operators", () => {
+    expect(() =>
+      fse_validateSearchFilters(
+        [{ field: "secret", op: "==", value: 1 }],
+        returnedKeys
+      )
+    ).toThrow('Filter field "secret" is not a returned key');
+    expect(() =>
+      fse_validateSearchFilters(
+        [{ field: "price", op: "~" as any, value: 1 }],
+        returnedKeys
+      )
+    ).toThrow('Filter operator "~" is not supported');
+    expect(() =>
+      fse_validateSearchFilters(
+        [{ field: "category", op: "in", value: [] }],
+        returnedKeys
+      )
+    ).toThrow("requires an array of 1 to 30 values");
+  });
+
+  it("should reject array membership filters with array-contains modes", () => {
+    const filters = [
+      { field: "tags", op: "array-contains-any" as const, value: ["new"] },
+    ];
+
+    expect(() =>
+      fse_validateSearchFilters(filters, returnedKeys, ["hybrid search"])
+    ).toThrow(
+      'Filter "tags array-contains-any" cannot be used with hybrid search'
+    );
+    expect(() =>
+      fse_validateSearchFilters(
+        [{ field: "category", op: "in", value: ["books"] }],
+        returnedKeys,
+        ["autocomplete"]
+      )
+    ).not.toThrow();
+  });
+
+  it("should restrict the filters to the tenant", () => {
+    expect(
+      fse_withTenantFilter(
+        { sourceField: "orgId" },
+        [{ field: "price", op: "<", value: 20 }],
+        "acme"
+      )
+    ).toEqual([
+      { field: "price", op: "<", value: 20 },
+      { field: FSE_TENANT_FIELD, op: "==", value: "acme" },
+    ]);
+    expect(fse_withTenantFilter(undefined, undefined, "acme")).toEqual([]);
+  });
+});
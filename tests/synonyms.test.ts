@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { fse_expandQuery } from "../src/shared/synonyms";
+
+describe("synonym expansion", () => {
+  const synonyms = {
+    tel: ["telephone", "portable"],
+    "salle de bain": ["sdb"],
+    salle: ["piece"],
+  };
+
+  it("should keep the query first and replace one term per variant", () => {
+    expect(fse_expandQuery("tel samsung", synonyms, 3)).toEqual([
+      "tel samsung",
+      "telephone samsung",
+      "portable samsung",
+    ]);
+  });
+
+  it("should match whole terms, longest expressions first", () => {
+    expect(fse_expandQuery("hotel", synonyms, 3)).toEqual(["hotel"]);
+    expect(fse_expandQuery("grande salle de bain", synonyms, 3)).toEqual([
+      "grande salle de bain",
+      "grande sdb",
+      "grande piece de bain",
+    ]);
+  });
+
+  it("should stop at maxExpansions", () => {
+    expect(fse_expandQuery("tel", synonyms, 1)).toEqual(["tel", "telephone"]);
+    expect(fse_expandQuery("tel", synonyms, 0)).toEqual(["tel"]);
+  });
+});
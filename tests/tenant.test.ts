@@ -0,0 +1,207 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  fakeEmbeddingProvider,
+  fakeFieldValue,
+  fakeSearchFirestore,
+} from "./helpers/fakeFirestore";
+
+vi.mock("fastembed", () => ({
+  EmbeddingModel: {},
+  ExecutionProvider: {},
+  FlagEmbedding: {},
+}));
+
+const { CloudFunctionsManager } = await import("../src/CloudFunctionsManager");
+const { FirestoreSearchEngine } = await import("../src/FirestoreSearchEngine");
+const { fse_getIndexTenantId } = await import("../src/shared/tenant");
+
+const alice = { indexedDocumentPath: "orgs/acme/users/alice", name: "Alice" };
+
+function engineOf(tenant: Record<string, any> = { pathSegment: 1 }) {
+  return new FirestoreSearchEngine(
+    fakeSearchFirestore({ vectors: [alice] }),
+    {
+      collection: "search_index",
+      embeddingProvider: fakeEmbeddingProvider,
+      queryCache: { enabled: false },
+      tenant,
+    } as any,
+    fakeFieldValue
+  );
+}
+
+/**
+ * Search functions of an instance, the firebase-functions host returns the handlers
+ */
+function generatedFunctions(tenant: Record<string, any>) {
+  const manager = new CloudFunctionsManager({
+    firestoreInstance: fakeSearchFirestore({ vectors: [alice] }),
+    fieldValueInstance: fakeFieldValue,
+    firebaseFunctions: {
+      onDocumentCreated: () => undefined,
+      onDocumentUpdated: () => undefined,
+      onDocumentDeleted: () => undefined,
+      onCall: (_options: unknown, handler: unknown) => handler,
+      onRequest: (_options: unknown, handler: unknown) => handler,
+    },
+  });
+  return manager.generateFunctions([
+    {
+      instanceId: "users",
+      collection: "search_index",
+      embeddingProvider: fakeEmbeddingProvider,
+      queryCache: { enabled: false },
+      tenant,
+      endpoints: { search: { enabled: true }, callable: { enabled: true } },
+    },
+  ]);
+}
+
+function responseOf() {
+  const response: any = { statusCode: 200 };
+  response.status = (code: number) => {
+    response.statusCode = code;
+    return response;
+  };
+  response.json = (body: unknown) => {
+    response.body = body;
+    return response;
+  };
+  return response;
+}
+
+describe("index tenant id", () => {
+  it("should derive the tenant id from a path segment", () => {
+    expect(
+      fse_getIndexTenantId(
+        { pathSegment: 1 },
+        { indexedDocumentPath: "orgs/acme/users/alice" }
+      )
+    ).toBe("acme");
+  });
+
+  it("should derive the tenant id from a source field", () => {
+    expect(
+      fse_getIndexTenantId(
+        { sourceField: "orgId" },
+        { indexedDocumentPath: "users/alice", orgId: "acme" }
+      )
+    ).toBe("acme");
+  });
+
+  it("should throw when no tenant id can be derived", () => {
+    expect(() =>
+      fse_getIndexTenantId(
+        { sourceField: "orgId" },
+        { indexedDocumentPath: "users/alice" }
+      )
+    ).toThrow("Unable to derive the tenant id of users/alice");
+    expect(() =>
+      fse_getIndexTenantId(
+        { pathSegment: 5 },
+        { indexedDocumentPath: "users/alice" }
+      )
+    ).toThrow("Unable to derive the tenant id");
+    expect(() =>
+      fse_getIndexTenantId({}, { indexedDocumentPath: "users/alice" })
+    ).toThrow("Unable to derive the tenant id");
+  });
+});
+
+describe("search tenant", () => {
+  it("should read the tenant from the auth token claim", async () => {
+    const auth = { uid: "u1", token: { tenantId: "acme", org: "globex" } };
+
+    expect(await engineOf().resolveTenantId({ auth } as any)).toBe("acme");
+    expect(
+      await engineOf({ pathSegment: 1, authClaim: "org" }).resolveTenantId({
+        auth,
+      } as any)
+    ).toBe("globex");
+  });
+
+  it("should resolve the tenant with resolveTenant", async () => {
+    const resolveTenant = vi.fn(async () => "acme");
+    const request = { headers: {} };
+
+    expect(
+      await engineOf({ pathSegment: 1, resolveTenant }).resolveTenantId({
+        request,
+      } as any)
+    ).toBe("acme");
+    expect(resolveTenant).toHaveBeenCalledWith({ request });
+  });
+
+  it("should not resolve an unknown or empty tenant", async () => {
+    expect(await engineOf().resolveTenantId({} as any)).toBeUndefined();
+    expect(
+      await engineOf({
+        pathSegment: 1,
+        resolveTenant: async () => "",
+      }).resolveTenantId({} as any)
+    ).toBeUndefined();
+    expect(
+      await new FirestoreSearchEngine(
+        fakeSearchFirestore(),
+        {
+          collection: "search_index",
+          embeddingProvider: fakeEmbeddingProvider,
+        },
+        fakeFieldValue
+      ).resolveTenantId({ auth: { token: { tenantId: "acme" } } } as any)
+    ).toBeUndefined();
+  });
+
+  it("should answer 403 to an HTTP search without tenant", async () => {
+    const { searchUsers } = generatedFunctions({ pathSegment: 1 });
+    const response = responseOf();
+
+    await searchUsers(
+      { query: { searchValue: "alice" }, headers: {} },
+      response
+    );
+
+    expect(response.statusCode).toBe(403);
+    expect(response.body.message).toContain(
+      "Unable to resolve the tenant of the search request"
+    );
+  });
+
+  it("should search in the tenant resolved for an HTTP request", async () => {
+    const { searchUsers } = generatedFunctions({
+      pathSegment: 1,
+      resolveTenant: async () => "acme",
+    });
+    const response = responseOf();
+
+    await searchUsers(
+      { query: { searchValue: "alice" }, headers: {} },
+      response
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body[0].indexedDocumentPath).toBe("orgs/acme/users/alice");
+  });
+
+  it("should deny a callable search without tenant", async () => {
+    const { searchUsersCallable } = generatedFunctions({ pathSegment: 1 });
+
+    await expect(
+      searchUsersCallable({
+        data: { searchValue: "alice" },
+        auth: { uid: "u1", token: {} },
+      })
+    ).rejects.toMatchObject({ code: "permission-denied" });
+  });
+
+  it("should search in the tenant of the callable auth token", async () => {
+    const { searchUsersCallable } = generatedFunctions({ pathSegment: 1 });
+
+    const results = await searchUsersCallable({
+      data: { searchValue: "alice" },
+      auth: { uid: "u1", token: { tenantId: "acme" } },
+    });
+
+    expect(results[0].indexedDocumentPath).toBe("orgs/acme/users/alice");
+  });
+});
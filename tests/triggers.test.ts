@@ -0,0 +1,127 @@
+import { Timestamp } from "@google-cloud/firestore";
+import { describe, expect, it, vi } from "vitest";
+import {
+  FakeFirestore,
+  fakeEmbeddingProvider,
+  fakeFieldValue,
+} from "./helpers/fakeFirestore";
+
+vi.mock("fastembed", () => ({
+  EmbeddingModel: {},
+  ExecutionProvider: {},
+  FlagEmbedding: {},
+}));
+
+const { FirestoreSearchEngine } = await import("../src/FirestoreSearchEngine");
+const { fse_indexDocumentId } = await import("../src/shared/indexDocumentId");
+
+const indexPath = `search_index/${fse_indexDocumentId("users/alice")}`;
+const documentProps = {
+  indexedKeys: { name: {}, "address.city": {}, bio: {} },
+  returnedKey: ["price"],
+};
+
+const alice = {
+  name: "Alice Martin",
+  address: { city: "paris" },
+  bio: "old biography",
+  price: 1,
+};
+
+function engineOf(db: FakeFirestore) {
+  return new FirestoreSearchEngine(
+    db as any,
+    {
+      collection: "search_index",
+      embeddingProvider: fakeEmbeddingProvider,
+      skipFirestoreSettings: true,
+    } as any,
+    fakeFieldValue
+  );
+}
+
+function snapshotOf(data: Record<string, any> | undefined, millis: number) {
+  return {
+    ref: { path: "users/alice" },
+    exists: data !== undefined,
+    data: () => data,
+    updateTime: data ? Timestamp.fromMillis(millis) : undefined,
+  };
+}
+
+/**
+ * The firebase-functions host returns the handler of the trigger
+ */
+const host = ((_options: unknown, handler: unknown) => handler) as any;
+
+async function indexAlice(db: FakeFirestore) {
+  const onCreate = engineOf(db).onDocumentWriteWrapper(
+    host,
+    documentProps,
+    "users/{userId}"
+  ) as unknown as (event: any) => Promise<void>;
+  await onCreate({
+    id: "e1",
+    time: new Date(1000).toISOString(),
+    data: snapshotOf(alice, 1000),
+  });
+}
+
+function updateHandler(db: FakeFirestore) {
+  return engineOf(db).onDocumentUpdateWrapper(
+    host,
+    documentProps,
+    "users/{userId}"
+  ) as unknown as (event: any) => Promise<void>;
+}
+
+function updateEvent(
+  id: string,
+  before: Record<string, any>,
+  after: Record<string, any>,
+  millis: number
+) {
+  return {
+    id,
+    time: new Date(millis).toISOString(),
+    data: {
+      before: snapshotOf(before, millis - 1),
+      after: snapshotOf(after, millis),
+    },
+  };
+}
+
+describe("update trigger", () => {
+  it("should not keep the fields removed from the source document", async () => {
+    const db = new FakeFirestore();
+    await indexAlice(db);
+
+    await updateHandler(db)(
+      updateEvent(
+        "e2",
+        alice,
+        { name: "Alice Durand", address: {}, bio: alice.bio },
+        2000
+      )
+    );
+
+    const index = db.documents.get(indexPath);
+    expect(index?.name_original).toBe("alice durand");
+    expect(index).not.toHaveProperty("address__city_original");
+    expect(index).not.toHaveProperty("price");
+  });
+
+  it("should reindex a document whose indexed field was removed", async () => {
+    const db = new FakeFirestore();
+    await indexAlice(db);
+    const { bio: _bio, ...withoutBio } = alice;
+
+    await updateHandler(db)(updateEvent("e2", alice, withoutBio, 2000));
+
+    const index = db.documents.get(indexPath);
+    expect(index).toBeDefined();
+    expect(index).not.toHaveProperty("_vector_bio");
+    expect(index).not.toHaveProperty("bio_original");
+    expect(index?.name_original).toBe("alice martin");
+  });
+});